@@ -0,0 +1,163 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { parquetReadObjects } from 'hyparquet';
+import { closeDatabase, createDatabase, getPage, type PageRecord } from '../src/docs/db.ts';
+import { writeParquet } from '../src/docs/write-parquet.ts';
+
+// Compares the range-read ParquetStore with the previous approach of loading the whole file into
+// an ArrayBuffer: cold start, page lookup latency and memory retained after opening.
+
+function getArg(flag: string): string | null {
+  const idx: number = process.argv.indexOf(flag);
+  if (idx === -1) return null;
+  const value: string | undefined = process.argv[idx + 1];
+  if (!value) return null;
+  return value;
+}
+
+function getUsage(): string {
+  return [
+    'Usage:',
+    '  bun run scripts/bench-docs-store.ts [--db <docs.parquet>] [--pages <n>] [--lookups <n>]',
+    '',
+    'Without --db, a synthetic corpus of --pages pages (default 3600) is generated.',
+  ].join('\n');
+}
+
+function syntheticPages(count: number): PageRecord[] {
+  const paragraph =
+    'Pipelines transform datasets on a schedule. Objects in the Ontology are backed by datasets. ';
+  return Array.from({ length: count }, (_, i) => ({
+    url: `/foundry/section-${i % 40}/page-${i}/`,
+    title: `Page ${i}`,
+    content: paragraph.repeat(20 + (i % 80)),
+    wordCount: 14 * (20 + (i % 80)),
+    meta: { filters: { product: ['Foundry'] } },
+    fetchedAt: new Date().toISOString(),
+  }));
+}
+
+type Stats = { p50: number; p95: number; mean: number };
+
+function stats(samples: number[]): Stats {
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (q: number): number =>
+    sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))];
+  return { p50: at(0.5), p95: at(0.95), mean: samples.reduce((a, b) => a + b, 0) / samples.length };
+}
+
+function retainedMb(): number {
+  Bun.gc(true);
+  const usage = process.memoryUsage();
+  return (usage.heapUsed + usage.arrayBuffers) / 1024 / 1024;
+}
+
+function ms(n: number): string {
+  return `${n.toFixed(2)} ms`;
+}
+
+async function benchArrayBuffer(dbPath: string, urls: string[]): Promise<void> {
+  const before = retainedMb();
+  const started = performance.now();
+  const file = await Bun.file(dbPath).arrayBuffer();
+  const rows = await parquetReadObjects({ file, columns: ['url', 'title'] });
+  const urlToRow = new Map(rows.map((row, i) => [row.url as string, i]));
+  const coldStart = performance.now() - started;
+  const retained = Math.max(0, retainedMb() - before);
+
+  const samples: number[] = [];
+  for (const url of urls) {
+    const t = performance.now();
+    const row = urlToRow.get(url)!;
+    await parquetReadObjects({ file, rowStart: row, rowEnd: row + 1 });
+    samples.push(performance.now() - t);
+  }
+  report('ArrayBuffer (previous)', coldStart, retained, stats(samples), null);
+}
+
+async function benchRangeRead(dbPath: string, urls: string[]): Promise<void> {
+  const before = retainedMb();
+  const started = performance.now();
+  const store = await createDatabase(dbPath);
+  const coldStart = performance.now() - started;
+  const retained = Math.max(0, retainedMb() - before);
+
+  const samples: number[] = [];
+  for (const url of urls) {
+    const t = performance.now();
+    await getPage(store, url);
+    samples.push(performance.now() - t);
+  }
+
+  // Agents re-read the pages they are working with; measure lookups that hit the LRU.
+  const hot = urls.slice(0, 10);
+  const cached: number[] = [];
+  for (let i = 0; i < urls.length; i++) {
+    const t = performance.now();
+    await getPage(store, hot[i % hot.length]);
+    cached.push(performance.now() - t);
+  }
+  report('Range reads (current)', coldStart, retained, stats(samples), stats(cached));
+  closeDatabase(store);
+}
+
+function report(
+  label: string,
+  coldStart: number,
+  retained: number,
+  lookups: Stats,
+  cached: Stats | null
+): void {
+  console.log(`\n${label}`);
+  console.log(`  cold start:        ${ms(coldStart)}`);
+  console.log(`  retained memory:   ${retained.toFixed(1)} MB`);
+  console.log(
+    `  lookup:            p50 ${ms(lookups.p50)}, p95 ${ms(lookups.p95)}, mean ${ms(lookups.mean)}`
+  );
+  if (cached) {
+    console.log(
+      `  lookup (cached):   p50 ${ms(cached.p50)}, p95 ${ms(cached.p95)}, mean ${ms(cached.mean)}`
+    );
+  }
+}
+
+async function main(): Promise<void> {
+  if (process.argv.includes('--help')) {
+    console.log(getUsage());
+    return;
+  }
+
+  const lookups = Number(getArg('--lookups') ?? 200);
+  let dbPath = getArg('--db');
+  let tmpDir: string | null = null;
+  if (!dbPath) {
+    const pages = Number(getArg('--pages') ?? 3600);
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bench-docs-'));
+    dbPath = path.join(tmpDir, 'docs.parquet');
+    await writeParquet(syntheticPages(pages), dbPath);
+  }
+
+  try {
+    const sizeMb = fs.statSync(dbPath).size / 1024 / 1024;
+    const index = await createDatabase(dbPath);
+    const urls = Array.from(
+      { length: lookups },
+      () => index.index[Math.floor(Math.random() * index.index.length)].url
+    );
+    console.log(
+      `${dbPath}: ${index.index.length} pages, ${sizeMb.toFixed(1)} MB, ${lookups} lookups`
+    );
+    closeDatabase(index);
+
+    await benchArrayBuffer(dbPath, urls);
+    await benchRangeRead(dbPath, urls);
+  } finally {
+    if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
+
+main().catch((error) => {
+  console.error('Benchmark failed:', error);
+  process.exit(1);
+});
@@ -1,22 +1,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { mock } from 'bun:test';
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
+import { parquetMetadata } from 'hyparquet';
+import { parquetWriteBuffer } from 'hyparquet-writer';
 import { writeParquet } from '../docs/write-parquet.ts';
+import { DOCS_SCHEMA_VERSION, readSchemaVersion } from '../docs/schema.ts';
+import * as dbModule from '../docs/db.ts';
 import * as fetchModule from '../docs/fetch.ts';
+import { mockToolModule } from './mock-tool.ts';
 
-mock.module('@opencode-ai/plugin/tool', () => {
-  const mockSchema = {
-    string: () => ({
-      describe: (d: string) => ({ _type: 'string', _description: d }),
-    }),
-  };
-  const toolFn = Object.assign((input: Record<string, unknown>) => input, {
-    schema: mockSchema,
-  });
-  return { tool: toolFn };
-});
+mockToolModule();
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 const plugin = (await import('../index.ts')).default as any;
@@ -24,14 +18,18 @@ const plugin = (await import('../index.ts')).default as any;
 describe('Plugin', () => {
   let tmpDir: string;
   let dbPath: string;
+  const originalCacheHome = process.env.XDG_CACHE_HOME;
 
   beforeEach(() => {
     tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugin-test-'));
     dbPath = path.join(tmpDir, 'data', 'docs.parquet');
+    process.env.XDG_CACHE_HOME = path.join(tmpDir, 'cache');
   });
 
   afterEach(() => {
     fs.rmSync(tmpDir, { recursive: true, force: true });
+    if (originalCacheHome === undefined) delete process.env.XDG_CACHE_HOME;
+    else process.env.XDG_CACHE_HOME = originalCacheHome;
   });
 
   async function seedDatabase(): Promise<void> {
@@ -59,14 +57,25 @@ describe('Plugin', () => {
     );
   }
 
-  it('returns Hooks with tool property containing exactly 2 tools', async () => {
+  it('returns Hooks with tool property containing exactly 13 tools', async () => {
     const hooks = await plugin({ worktree: tmpDir });
 
     expect(hooks.tool).toBeDefined();
     const toolNames = Object.keys(hooks.tool);
-    expect(toolNames).toHaveLength(2);
+    expect(toolNames).toHaveLength(13);
     expect(toolNames).toContain('get_doc_page');
     expect(toolNames).toContain('list_all_docs');
+    expect(toolNames).toContain('search_docs');
+    expect(toolNames).toContain('get_doc_section');
+    expect(toolNames).toContain('browse_docs');
+    expect(toolNames).toContain('related_docs');
+    expect(toolNames).toContain('find_similar_docs');
+    expect(toolNames).toContain('define_foundry_term');
+    expect(toolNames).toContain('find_doc_examples');
+    expect(toolNames).toContain('lookup_foundry_api');
+    expect(toolNames).toContain('get_doc_pages');
+    expect(toolNames).toContain('list_doc_facets');
+    expect(toolNames).toContain('docs_status');
   });
 
   it('get_doc_page tool has description and url arg schema', async () => {
@@ -84,7 +93,9 @@ describe('Plugin', () => {
 
     expect(listAllDocs.description).toBeTruthy();
     expect(listAllDocs.description).toContain('documentation');
-    expect(Object.keys(listAllDocs.args)).toHaveLength(0);
+    for (const arg of Object.values(listAllDocs.args) as Array<{ _optional?: boolean }>) {
+      expect(arg._optional).toBe(true);
+    }
   });
 
   it('get_doc_page execute returns page content when DB exists', async () => {
@@ -109,6 +120,79 @@ describe('Plugin', () => {
     expect(result).toContain('/docs/nonexistent/');
   });
 
+  it('get_doc_page pages through long content with continuation cursors', async () => {
+    fs.mkdirSync(path.join(tmpDir, 'data'), { recursive: true });
+    const paragraphs = Array.from({ length: 6 }, (_, i) => `Paragraph ${i} ${'word '.repeat(40)}`);
+    const content = paragraphs.join('\n\n');
+    await writeParquet(
+      [
+        {
+          url: '/foundry/long/',
+          title: 'Long page',
+          content,
+          wordCount: 250,
+          meta: {},
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+        },
+      ],
+      dbPath
+    );
+    const hooks = await plugin({ worktree: tmpDir });
+    const getDocPage = hooks.tool['get_doc_page'];
+
+    const chunks: string[] = [];
+    let result: string = await getDocPage.execute({ url: '/foundry/long/', maxChars: 500 }, {});
+    for (;;) {
+      chunks.push(result);
+      const cursor = /cursor "([^"]+)"/.exec(result)?.[1];
+      if (!cursor) break;
+      result = await getDocPage.execute({ url: '/foundry/long/', cursor }, {});
+    }
+
+    expect(chunks[0]).toMatch(/^\[Chunk 1 of \d+ ·/);
+    expect(chunks[chunks.length - 1]).toContain('[End of page]');
+    for (const p of paragraphs) {
+      expect(chunks.some((c) => c.includes(p.trim()))).toBe(true);
+    }
+
+    const fromOffset = await getDocPage.execute(
+      { url: '/foundry/long/', maxChars: 500, offset: content.length - 1 },
+      {}
+    );
+    expect(fromOffset).toContain(`[Chunk ${chunks.length} of ${chunks.length}`);
+
+    const bad = await getDocPage.execute({ url: '/foundry/long/', cursor: 'garbage' }, {});
+    expect(bad).toBe('Invalid cursor: garbage');
+  });
+
+  it('get_doc_page resolves /docs-less, full and mis-cased URLs', async () => {
+    await seedDatabase();
+    const hooks = await plugin({ worktree: tmpDir });
+    const getDocPage = hooks.tool['get_doc_page'];
+
+    for (const url of [
+      'https://www.palantir.com/docs/foundry/ontology/overview',
+      '/Docs/Foundry/Ontology/Overview',
+    ]) {
+      expect(await getDocPage.execute({ url }, {})).toBe('This is the ontology overview content.');
+    }
+  });
+
+  it('get_doc_page suggests close matches for unknown URLs', async () => {
+    await seedDatabase();
+    const hooks = await plugin({ worktree: tmpDir });
+
+    const result = await hooks.tool['get_doc_page'].execute(
+      { url: '/docs/foundry/ontology/overveiw/' },
+      {}
+    );
+
+    expect(result).toContain('Page not found: /docs/foundry/ontology/overveiw/');
+    expect(result).toContain(
+      'Did you mean:\n- Ontology Overview (/docs/foundry/ontology/overview/)'
+    );
+  });
+
   it('list_all_docs execute returns formatted list of pages', async () => {
     await seedDatabase();
     const hooks = await plugin({ worktree: tmpDir });
@@ -120,6 +204,481 @@ describe('Plugin', () => {
     expect(result).toContain('- Actions (/docs/foundry/actions/)');
   });
 
+  it('get_doc_section returns an outline, a section, or a not-found outline', async () => {
+    fs.mkdirSync(path.join(tmpDir, 'data'), { recursive: true });
+    await writeParquet(
+      [
+        {
+          url: '/foundry/transforms/',
+          title: 'Transforms',
+          content: 'Intro. Incremental transforms Read new rows. Lightweight Single node.',
+          wordCount: 10,
+          meta: {
+            anchors: [
+              { element: 'h2', id: 'incremental', text: 'Incremental transforms', location: 1 },
+              { element: 'h2', id: 'lightweight', text: 'Lightweight', location: 6 },
+            ],
+          },
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+        },
+      ],
+      dbPath
+    );
+    const hooks = await plugin({ worktree: tmpDir });
+    const getDocSection = hooks.tool['get_doc_section'];
+
+    const outline = await getDocSection.execute({ url: '/foundry/transforms/' }, {});
+    expect(outline).toContain('- Incremental transforms (#incremental, 5 words)');
+    expect(outline).toContain('- Lightweight (#lightweight, 3 words)');
+
+    const section = await getDocSection.execute(
+      { url: '/foundry/transforms/', heading: 'incremental transforms' },
+      {}
+    );
+    expect(section).toContain('Incremental transforms Read new rows.');
+    expect(section).not.toContain('Single node');
+
+    const missing = await getDocSection.execute(
+      { url: '/foundry/transforms/', anchor: 'nope' },
+      {}
+    );
+    expect(missing).toContain('Section not found: #nope');
+    expect(missing).toContain('Outline of Transforms');
+  });
+
+  it('search_docs execute returns ranked results with highlighted snippets', async () => {
+    await seedDatabase();
+    const hooks = await plugin({ worktree: tmpDir });
+
+    const result = await hooks.tool['search_docs'].execute({ query: 'ontology' }, {});
+
+    expect(result).toContain('Found 1 results for "ontology"');
+    expect(result).toContain('1. Ontology Overview (/docs/foundry/ontology/overview/) — score');
+    expect(result).toContain('**ontology** overview content');
+    expect(fs.existsSync(path.join(tmpDir, 'data', 'docs.search.cbor'))).toBe(true);
+  });
+
+  it('search_docs execute reports when nothing matches', async () => {
+    await seedDatabase();
+    const hooks = await plugin({ worktree: tmpDir });
+
+    const result = await hooks.tool['search_docs'].execute({ query: 'kubernetes' }, {});
+
+    expect(result).toBe('No documentation pages matched: kubernetes');
+  });
+
+  it('list_all_docs execute filters by prefix and renders a tree', async () => {
+    await seedDatabase();
+    const hooks = await plugin({ worktree: tmpDir });
+    const listAllDocs = hooks.tool['list_all_docs'];
+
+    const filtered = await listAllDocs.execute({ titleContains: 'actions' }, {});
+    expect(filtered).toContain('(1 pages)');
+    expect(filtered).toContain('- Actions (/docs/foundry/actions/)');
+    expect(filtered).not.toContain('Ontology Overview');
+
+    const tree = await listAllDocs.execute({ format: 'tree', pathPrefix: '/foundry/' }, {});
+    expect(tree).toContain('- actions/ — Actions (/docs/foundry/actions/)');
+    expect(tree).toContain('- ontology/ [1 pages below]');
+  });
+
+  it('browse_docs shows the neighbourhood of a page or section', async () => {
+    await seedDatabase();
+    const hooks = await plugin({ worktree: tmpDir });
+    const browseDocs = hooks.tool['browse_docs'];
+
+    const page = await browseDocs.execute({ url: '/docs/foundry/actions/' }, {});
+    expect(page).toContain('Location: Actions (/docs/foundry/actions/)');
+    expect(page).toContain('Parent: /foundry/ (section, no page) [2 pages below]');
+    expect(page).toContain(
+      'Siblings (1):\n- /foundry/ontology/ (section, no page) [1 pages below]'
+    );
+
+    const missing = await browseDocs.execute({ url: '/foundry/actoins/' }, {});
+    expect(missing).toContain('Page not found: /foundry/actoins/');
+    expect(missing).toContain('- Actions (/docs/foundry/actions/)');
+  });
+
+  it('related_docs returns links and backlinks between pages', async () => {
+    fs.mkdirSync(path.join(tmpDir, 'data'), { recursive: true });
+    await writeParquet(
+      [
+        {
+          url: '/foundry/ontology/overview/',
+          title: 'Ontology Overview',
+          content: 'To change objects, see Actions.',
+          wordCount: 5,
+          meta: {},
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+        },
+        {
+          url: '/foundry/actions/',
+          title: 'Actions',
+          content: 'Actions edit objects.',
+          wordCount: 3,
+          meta: {},
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+        },
+      ],
+      dbPath
+    );
+    const hooks = await plugin({ worktree: tmpDir });
+    const relatedDocs = hooks.tool['related_docs'];
+
+    const outgoing = await relatedDocs.execute({ url: '/docs/foundry/ontology/overview' }, {});
+    expect(outgoing).toContain('Links to (1):\n- Actions (/foundry/actions/)');
+
+    const incoming = await relatedDocs.execute(
+      { url: '/foundry/actions/', direction: 'incoming' },
+      {}
+    );
+    expect(incoming).toContain(
+      'Linked from (1):\n- Ontology Overview (/foundry/ontology/overview/)'
+    );
+    expect(fs.existsSync(path.join(tmpDir, 'data', 'docs.links.parquet'))).toBe(true);
+
+    const cited = await relatedDocs.execute(
+      { url: '/foundry/actions/', direction: 'incoming', citation: true },
+      {}
+    );
+    expect(cited.match(/^ {4}url: .+$/gm)).toEqual([
+      '    url: https://www.palantir.com/docs/foundry/actions/',
+      '    url: https://www.palantir.com/docs/foundry/ontology/overview/',
+    ]);
+  });
+
+  it('find_similar_docs ranks pages by shared content', async () => {
+    fs.mkdirSync(path.join(tmpDir, 'data'), { recursive: true });
+    await writeParquet(
+      [
+        {
+          url: '/foundry/ontology/objects/',
+          title: 'Object types',
+          content: 'Object types define properties and links in the ontology.',
+          wordCount: 9,
+          meta: {},
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+        },
+        {
+          url: '/foundry/workshop/object-table/',
+          title: 'Object table widget',
+          content: 'The object table widget shows ontology object properties.',
+          wordCount: 8,
+          meta: {},
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+        },
+        {
+          url: '/apollo/releases/',
+          title: 'Releases',
+          content: 'Apollo releases ship software to environments.',
+          wordCount: 6,
+          meta: {},
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+        },
+      ],
+      dbPath
+    );
+    const hooks = await plugin({ worktree: tmpDir });
+    const findSimilarDocs = hooks.tool['find_similar_docs'];
+
+    const result = await findSimilarDocs.execute({ url: '/foundry/ontology/objects' }, {});
+    expect(result).toContain('Pages similar to Object types (/foundry/ontology/objects/):');
+    expect(result).toContain('1. Object table widget (/foundry/workshop/object-table/)');
+    expect(result).not.toContain('/apollo/releases/');
+    expect(fs.existsSync(path.join(tmpDir, 'data', 'docs.similar.cbor'))).toBe(true);
+  });
+
+  it('define_foundry_term answers from the bundled glossary without a database', async () => {
+    const hooks = await plugin({ worktree: tmpDir });
+    const defineTerm = hooks.tool['define_foundry_term'];
+
+    const result = await defineTerm.execute({ term: 'Ontology SDK' }, {});
+    expect(result).toContain('OSDK (also: Ontology SDK)');
+    expect(result).toContain('Source: data/llm-summary.md — Core Terminology');
+    expect(result).toContain('run /refresh-docs');
+
+    const unknown = await defineTerm.execute({ term: 'flux capacitor' }, {});
+    expect(unknown).toContain('No glossary entry for "flux capacitor"');
+  });
+
+  it('find_doc_examples returns code snippets filtered by language', async () => {
+    fs.mkdirSync(path.join(tmpDir, 'data'), { recursive: true });
+    await writeParquet(
+      [
+        {
+          url: '/foundry/transforms-python/transforms/',
+          title: 'Python transforms',
+          content:
+            'Define a transform with the decorator.\nfrom transforms.api import transform_df, Input, Output\n@transform_df(Output("/out"), source=Input("/in"))\ndef compute(source):\n    return source\nThe output is written on build.',
+          wordCount: 20,
+          meta: {},
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+        },
+      ],
+      dbPath
+    );
+    const hooks = await plugin({ worktree: tmpDir });
+    const findExamples = hooks.tool['find_doc_examples'];
+
+    const result = await findExamples.execute({ query: 'transform_df', language: 'python' }, {});
+    expect(result).toContain(
+      '1. Python transforms (/foundry/transforms-python/transforms/) — python'
+    );
+    expect(result).toContain('@transform_df(Output("/out"), source=Input("/in"))');
+    expect(result).toContain('Before: Define a transform with the decorator.');
+
+    const none = await findExamples.execute({ query: 'transform_df', language: 'sql' }, {});
+    expect(none).toBe('No code examples matched "transform_df" in sql.');
+    expect(fs.existsSync(path.join(tmpDir, 'data', 'docs.examples.cbor'))).toBe(true);
+  });
+
+  it('lookup_foundry_api returns endpoints parsed from API reference pages', async () => {
+    fs.mkdirSync(path.join(tmpDir, 'data'), { recursive: true });
+    await writeParquet(
+      [
+        {
+          url: '/foundry/api/v2/datasets-v2-resources/datasets/get-dataset/',
+          title: 'Get dataset',
+          content:
+            'GET /api/v2/datasets/{datasetRid} Get the Dataset with the specified rid. Scope: api:datasets-read Path parameters datasetRid DatasetRid Response body Dataset',
+          wordCount: 20,
+          meta: {},
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+        },
+      ],
+      dbPath
+    );
+    const hooks = await plugin({ worktree: tmpDir });
+    const lookupApi = hooks.tool['lookup_foundry_api'];
+
+    const result = await lookupApi.execute({ query: 'get dataset' }, {});
+    expect(result).toContain('1. GET /api/v2/datasets/{datasetRid} — Get dataset');
+    expect(result).toContain('Scopes: api:datasets-read');
+    expect(result).toContain('Path parameters: datasetRid (DatasetRid, required)');
+
+    const none = await lookupApi.execute({ query: 'get dataset', method: 'DELETE' }, {});
+    expect(none).toBe('No Foundry API endpoints matched "get dataset".');
+  });
+
+  it('get_doc_pages returns several pages in one call and reports misses', async () => {
+    await seedDatabase();
+    const hooks = await plugin({ worktree: tmpDir });
+    const getDocPages = hooks.tool['get_doc_pages'];
+
+    const result = await getDocPages.execute(
+      {
+        urls: ['/foundry/ontology/overview/', '/docs/foundry/actions', '/foundry/actoins/'],
+      },
+      {}
+    );
+    expect(result).toContain(
+      '=== [1/2] Ontology Overview (/docs/foundry/ontology/overview/) · 38 chars ===\nThis is the ontology overview content.'
+    );
+    expect(result).toContain('=== [2/2] Actions (/docs/foundry/actions/)');
+    expect(result).toContain(
+      'Not found:\n- /foundry/actoins/ (did you mean /docs/foundry/actions/'
+    );
+    expect(result).not.toContain('Truncated');
+
+    const tight = await getDocPages.execute(
+      { urls: ['/foundry/ontology/overview/', '/foundry/actions/'], maxTotalChars: 20 },
+      {}
+    );
+    expect(tight).toContain('Truncated to fit 20 chars:');
+  });
+
+  it('get_doc_page continues a page cut by get_doc_pages where the batch stopped', async () => {
+    fs.mkdirSync(path.join(tmpDir, 'data'), { recursive: true });
+    const paragraphs = Array.from({ length: 30 }, (_, i) => `Paragraph ${i} ${'word '.repeat(40)}`);
+    const content = paragraphs.join('\n\n');
+    await writeParquet(
+      [
+        {
+          url: '/foundry/long/',
+          title: 'Long page',
+          content,
+          wordCount: 1230,
+          meta: {},
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+        },
+      ],
+      dbPath
+    );
+    const hooks = await plugin({ worktree: tmpDir });
+
+    const batch = await hooks.tool['get_doc_pages'].execute(
+      { urls: ['/foundry/long/'], maxTotalChars: 1000 },
+      {}
+    );
+    const shown = /· \d+ of \d+ chars ===\n([\s\S]*?)\n\nTruncated/.exec(batch)![1];
+    const cursor = /get_doc_page cursor "([^"]+)"/.exec(batch)![1];
+
+    const next = await hooks.tool['get_doc_page'].execute({ url: '/foundry/long/', cursor }, {});
+    const [, start, body] =
+      /^\[Chunk 1 of 1 · chars (\d+)-\d+ of \d+\]\n\n([\s\S]*)\n\n\[End of page\]$/.exec(next)!;
+    expect(content.slice(0, Number(start)).trimEnd()).toBe(shown);
+    expect(body).toBe(content.slice(Number(start)));
+    expect(body.startsWith('Paragraph')).toBe(true);
+  });
+
+  it('get_doc_page adds citation front matter on request or when configured', async () => {
+    await seedDatabase();
+    const hooks = await plugin({ worktree: tmpDir });
+
+    const plain = await hooks.tool['get_doc_page'].execute({ url: '/foundry/actions/' }, {});
+    expect(plain).toBe('Actions documentation content.');
+
+    const cited = await hooks.tool['get_doc_page'].execute(
+      { url: '/foundry/actions/', citation: true },
+      {}
+    );
+    expect(cited).toBe(
+      [
+        '---',
+        'title: "Actions"',
+        'url: https://www.palantir.com/docs/foundry/actions/',
+        'fetched_at: 2025-01-01T00:00:00.000Z',
+        'word_count: 3',
+        '---',
+        'Actions documentation content.',
+      ].join('\n')
+    );
+
+    fs.writeFileSync(
+      path.join(tmpDir, 'opencode.jsonc'),
+      JSON.stringify({ palantir_docs: { citations: true } })
+    );
+    const configured = await plugin({ worktree: tmpDir });
+    const chunk = await configured.tool['get_doc_page'].execute(
+      { url: '/foundry/actions/', maxChars: 1000 },
+      {}
+    );
+    expect(chunk.startsWith('---\ntitle: "Actions"')).toBe(true);
+    expect(chunk).toContain('[Chunk 1 of 1');
+
+    const search = await configured.tool['search_docs'].execute({ query: 'actions' }, {});
+    expect(search).toMatch(
+      /^---\nsources:\n {2}- title: "Actions"\n {4}url: https:\/\/www\.palantir\.com\/docs\/foundry\/actions\/\n {4}fetched_at: 2025-01-01T00:00:00\.000Z\n---\nFound 1 results/
+    );
+  });
+
+  it('search_docs cites the pages it lists only when asked', async () => {
+    await seedDatabase();
+    const hooks = await plugin({ worktree: tmpDir });
+
+    const plain = await hooks.tool['search_docs'].execute({ query: 'ontology' }, {});
+    expect(plain.startsWith('Found')).toBe(true);
+    const cited = await hooks.tool['search_docs'].execute(
+      { query: 'ontology', citation: true },
+      {}
+    );
+    expect(cited).toContain('url: https://www.palantir.com/docs/foundry/ontology/overview/');
+  });
+
+  it('list_all_docs filters by facet and list_doc_facets lists facet values', async () => {
+    fs.mkdirSync(path.join(tmpDir, 'data'), { recursive: true });
+    await writeParquet(
+      [
+        {
+          url: '/foundry/ontology/',
+          title: 'Ontology',
+          content: 'Ontology content.',
+          wordCount: 2,
+          meta: { filters: { product: ['Foundry'] } },
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+        },
+        {
+          url: '/apollo/overview/',
+          title: 'Apollo',
+          content: 'Apollo content.',
+          wordCount: 2,
+          meta: { filters: { product: ['Apollo'] } },
+          fetchedAt: '2025-01-01T00:00:00.000Z',
+        },
+      ],
+      dbPath
+    );
+    const hooks = await plugin({ worktree: tmpDir });
+
+    const facets = await hooks.tool['list_doc_facets'].execute({}, {});
+    expect(facets).toContain('product (2 values):');
+
+    const listed = await hooks.tool['list_all_docs'].execute(
+      { filters: { product: 'apollo' } },
+      {}
+    );
+    expect(listed).toContain('with product=apollo (1 pages):');
+    expect(listed).toContain('- Apollo (/apollo/overview/)');
+    expect(listed).not.toContain('/foundry/ontology/');
+
+    const unknown = await hooks.tool['list_all_docs'].execute({ filters: { area: 'x' } }, {});
+    expect(unknown).toContain('Unknown facet: area');
+  });
+
+  async function systemFor(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    hooks: any,
+    agent: string,
+    sessionID = `session-${agent}`
+  ): Promise<string[]> {
+    await hooks['chat.message']({ sessionID, agent }, { message: {}, parts: [] });
+    const output = { system: ['base prompt'] };
+    await hooks['experimental.chat.system.transform']({ sessionID, model: {} }, output);
+    return output.system;
+  }
+
+  it('injects the versioned platform overview for Foundry agents only', async () => {
+    const hooks = await plugin({ worktree: tmpDir });
+
+    const librarian = await systemFor(hooks, 'foundry-librarian');
+    expect(librarian).toHaveLength(2);
+    expect(librarian[1]).toMatch(/^<foundry-platform-overview version="[0-9a-f]{12}">/);
+    expect(librarian[1]).toContain('## Core Terminology');
+
+    expect(await systemFor(hooks, 'foundry')).toEqual(librarian);
+    expect(await systemFor(hooks, 'build')).toEqual(['base prompt']);
+  });
+
+  it('reads the overview file and agents from palantir_docs in opencode.jsonc', async () => {
+    fs.writeFileSync(path.join(tmpDir, 'overview.md'), 'Team-specific Foundry notes.');
+    fs.writeFileSync(
+      path.join(tmpDir, 'opencode.jsonc'),
+      JSON.stringify({
+        palantir_docs: { system_context: { file: 'overview.md', agents: ['build'] } },
+      })
+    );
+    const hooks = await plugin({ worktree: tmpDir });
+
+    const build = await systemFor(hooks, 'build');
+    expect(build[1]).toContain('Team-specific Foundry notes.');
+    expect(await systemFor(hooks, 'foundry')).toEqual(['base prompt']);
+  });
+
+  it('forgets the agent of a deleted session', async () => {
+    const hooks = await plugin({ worktree: tmpDir });
+    expect(await systemFor(hooks, 'foundry', 'session-1')).toHaveLength(2);
+
+    await hooks.event({
+      event: { type: 'session.deleted', properties: { info: { id: 'session-1' } } },
+    });
+    const output = { system: ['base prompt'] };
+    await hooks['experimental.chat.system.transform'](
+      { sessionID: 'session-1', model: {} },
+      output
+    );
+    expect(output.system).toEqual(['base prompt']);
+  });
+
+  it('does not inject the overview when system_context is disabled', async () => {
+    fs.writeFileSync(
+      path.join(tmpDir, 'opencode.jsonc'),
+      JSON.stringify({ palantir_docs: { system_context: false } })
+    );
+    const hooks = await plugin({ worktree: tmpDir });
+
+    expect(await systemFor(hooks, 'foundry')).toEqual(['base prompt']);
+  });
+
   it('tools return helpful message when docs.db does not exist', async () => {
     const hooks = await plugin({ worktree: tmpDir });
 
@@ -130,12 +689,20 @@ describe('Plugin', () => {
     const listResult = await hooks.tool['list_all_docs'].execute({}, {});
     expect(listResult).toContain('Documentation database not found');
     expect(listResult).toContain('/refresh-docs');
+
+    const searchResult = await hooks.tool['search_docs'].execute({ query: 'ontology' }, {});
+    expect(searchResult).toContain('Documentation database not found');
   });
 
   it('command.execute.before hook triggers fetchAllDocs for /refresh-docs', async () => {
     const spy = vi.spyOn(fetchModule, 'fetchAllDocs').mockResolvedValue({
       totalPages: 100,
-      fetchedPages: 98,
+      fetchedPages: 7,
+      resumedPages: 0,
+      pendingPages: 0,
+      keptPages: 0,
+      unchangedPages: 91,
+      changes: { added: 3, updated: 4, removed: 1 },
       failedUrls: ['url1', 'url2'],
       dbPath,
     });
@@ -148,14 +715,324 @@ describe('Plugin', () => {
     const output = { parts: [] as any[] };
     await hookFn({ command: 'refresh-docs', sessionID: 'test-session', arguments: '' }, output);
 
-    expect(spy).toHaveBeenCalledWith(dbPath);
+    // No data/docs.parquet in the project, so the shared per-user cache is refreshed.
+    expect(spy).toHaveBeenCalledWith(
+      path.join(tmpDir, 'cache', 'opencode-palantir', 'docs.parquet'),
+      {}
+    );
     expect(output.parts).toHaveLength(1);
     expect(output.parts[0].type).toBe('text');
-    expect(output.parts[0].text).toContain('98');
-    expect(output.parts[0].text).toContain('100');
+    expect(output.parts[0].text).toBe(
+      'Refreshed documentation: 100 pages; 3 added, 4 updated, 1 removed, 91 unchanged (7 fragments downloaded). 2 failures.'
+    );
+
+    await hookFn(
+      { command: 'refresh-docs', sessionID: 'test-session', arguments: '--full' },
+      { parts: [] }
+    );
+    expect(spy).toHaveBeenLastCalledWith(
+      path.join(tmpDir, 'cache', 'opencode-palantir', 'docs.parquet'),
+      { full: true }
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const partial = { parts: [] as any[] };
+    await hookFn(
+      { command: 'refresh-docs', sessionID: 'test-session', arguments: '--accept-partial' },
+      partial
+    );
+    expect(spy).toHaveBeenCalledTimes(2);
+    expect(partial.parts[0].text).toBe(
+      'There is no interrupted refresh to accept. Run /refresh-docs to refresh the documentation.'
+    );
     spy.mockRestore();
   });
 
+  it('/docs-diff lists changed pages and diffs one page against the previous snapshot', async () => {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const run = async (hooks: any, args: string): Promise<string> => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const output = { parts: [] as any[] };
+      await hooks['command.execute.before'](
+        { command: 'docs-diff', sessionID: 'test-session', arguments: args },
+        output
+      );
+      return output.parts[0].text;
+    };
+
+    await seedDatabase();
+    expect(await run(await plugin({ worktree: tmpDir }), '')).toContain(
+      'No previous documentation snapshot'
+    );
+
+    fs.renameSync(dbPath, path.join(tmpDir, 'data', 'docs.previous.parquet'));
+    await writeParquet(
+      [
+        {
+          url: '/docs/foundry/ontology/overview/',
+          title: 'Ontology Overview',
+          content: 'This is the revised ontology overview content.',
+          wordCount: 7,
+          meta: {},
+          fetchedAt: '2025-02-01T00:00:00.000Z',
+        },
+        {
+          url: '/docs/foundry/functions/',
+          title: 'Functions',
+          content: 'Functions documentation content.',
+          wordCount: 3,
+          meta: {},
+          fetchedAt: '2025-02-01T00:00:00.000Z',
+        },
+      ],
+      dbPath
+    );
+    const hooks = await plugin({ worktree: tmpDir });
+
+    const summary = await run(hooks, '');
+    expect(summary).toContain('1 added, 1 removed, 1 modified, 0 unchanged');
+    expect(summary).toContain('- Functions (/docs/foundry/functions/)');
+    expect(summary).toContain('- Actions (/docs/foundry/actions/)');
+
+    const page = await run(hooks, '/foundry/ontology/overview');
+    expect(page).toContain('Changes to Ontology Overview (/docs/foundry/ontology/overview/)');
+    expect(page).toContain('- This is the ontology overview content.');
+    expect(page).toContain('+ This is the revised ontology overview content.');
+
+    expect(await run(hooks, '/docs/foundry/actions/')).toContain('was removed');
+  });
+
+  it('asOf reads the newest dated snapshot at or before the date', async () => {
+    await seedDatabase();
+    fs.copyFileSync(dbPath, path.join(tmpDir, 'data', 'docs-2026-09-01.parquet'));
+    await writeParquet(
+      [
+        {
+          url: '/docs/foundry/ontology/overview/',
+          title: 'Ontology Overview',
+          content: 'This is the revised ontology overview content.',
+          wordCount: 7,
+          meta: {},
+          fetchedAt: '2026-10-01T00:00:00.000Z',
+        },
+      ],
+      dbPath
+    );
+    const hooks = await plugin({ worktree: tmpDir });
+
+    const page = await hooks.tool['get_doc_page'].execute(
+      { url: '/foundry/ontology/overview/', asOf: '2026-09-20' },
+      {}
+    );
+    expect(page).toBe(
+      '[Docs snapshot of 2026-09-01, the newest at or before 2026-09-20]\n\nThis is the ontology overview content.'
+    );
+
+    const listed = await hooks.tool['list_all_docs'].execute({ asOf: '2026-09-20' }, {});
+    expect(listed).toContain('Actions (/docs/foundry/actions/)');
+    expect(await hooks.tool['list_all_docs'].execute({}, {})).not.toContain('Actions');
+
+    const search = await hooks.tool['search_docs'].execute(
+      { query: 'actions', asOf: '2026-09-20' },
+      {}
+    );
+    expect(search).toContain('/docs/foundry/actions/');
+
+    expect(
+      await hooks.tool['get_doc_page'].execute({ url: '/foundry/actions/', asOf: '2026-08-01' }, {})
+    ).toContain('No docs snapshot was taken at or before 2026-08-01');
+    expect(
+      await hooks.tool['get_doc_page'].execute({ url: '/foundry/actions/', asOf: 'soon' }, {})
+    ).toContain('Invalid asOf date');
+  });
+
+  it('asOf closes the least recently used snapshot beyond the first three', async () => {
+    await seedDatabase();
+    for (const day of ['01', '02', '03', '04']) {
+      fs.copyFileSync(dbPath, path.join(tmpDir, 'data', `docs-2026-09-${day}.parquet`));
+    }
+    const closeSpy = vi.spyOn(dbModule, 'closeDatabase');
+    const hooks = await plugin({ worktree: tmpDir });
+    const read = (day: string) =>
+      hooks.tool['get_doc_page'].execute({ url: '/foundry/actions/', asOf: `2026-09-${day}` }, {});
+
+    for (const day of ['01', '02', '03', '01']) await read(day);
+    expect(closeSpy).not.toHaveBeenCalled();
+
+    await read('04');
+    expect(closeSpy).toHaveBeenCalledTimes(1);
+    expect(closeSpy.mock.calls[0][0].handle.closed).toBe(true);
+
+    expect(await read('02')).toContain('[Docs snapshot of 2026-09-02');
+    closeSpy.mockRestore();
+  });
+
+  it('/refresh-docs leaves the database alone while another session holds the lock', async () => {
+    await seedDatabase();
+    fs.writeFileSync(
+      `${dbPath}.lock`,
+      JSON.stringify({ pid: process.pid, acquiredAt: new Date().toISOString() })
+    );
+    const spy = vi.spyOn(fetchModule, 'fetchAllDocs');
+    const hooks = await plugin({ worktree: tmpDir });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const output = { parts: [] as any[] };
+
+    await hooks['command.execute.before'](
+      { command: 'refresh-docs', sessionID: 'test-session', arguments: '' },
+      output
+    );
+
+    expect(spy).not.toHaveBeenCalled();
+    expect(output.parts[0].text).toContain(`being updated by process ${process.pid}`);
+    spy.mockRestore();
+  });
+
+  it('reads the docs database from palantir_docs.path', async () => {
+    const customPath = path.join(tmpDir, 'shared', 'foundry.parquet');
+    await seedDatabase();
+    fs.mkdirSync(path.dirname(customPath));
+    fs.renameSync(dbPath, customPath);
+    fs.writeFileSync(
+      path.join(tmpDir, 'opencode.jsonc'),
+      JSON.stringify({ palantir_docs: { path: 'shared/foundry.parquet' } })
+    );
+    const hooks = await plugin({ worktree: tmpDir });
+
+    const result = await hooks.tool['get_doc_page'].execute({ url: '/foundry/actions/' }, {});
+    expect(result).toBe('Actions documentation content.');
+  });
+
+  it('/import-docs installs a validated bundle and reopens the database', async () => {
+    await seedDatabase();
+    const hooks = await plugin({ worktree: tmpDir });
+    expect(await hooks.tool['list_all_docs'].execute({}, {})).toContain('(2 pages)');
+
+    const pages = Array.from({ length: 3600 }, (_, i) => ({
+      url: i === 0 ? '/apollo/recalling-releases/recall-ranges/' : `/foundry/page-${i}/`,
+      title: `Page ${i}`,
+      content: i === 0 ? 'Recall ranges '.repeat(20) : `Content of page ${i}.`,
+      wordCount: 4,
+      meta: {},
+      fetchedAt: '2026-10-01T00:00:00.000Z',
+    }));
+    await writeParquet(pages, path.join(tmpDir, 'bundle.parquet'));
+
+    const run = async (args: string): Promise<string> => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const output = { parts: [] as any[] };
+      await hooks['command.execute.before'](
+        { command: 'import-docs', sessionID: 'test-session', arguments: args },
+        output
+      );
+      return output.parts[0].text;
+    };
+
+    expect(await run('')).toContain('Usage: /import-docs');
+    expect(await run('bundle.parquet not-a-checksum')).toContain(
+      `File not found: ${path.join(tmpDir, 'bundle.parquet not-a-checksum')}`
+    );
+    expect(await run(`bundle.parquet ${'0'.repeat(64)}`)).toContain('Checksum mismatch');
+
+    fs.mkdirSync(path.join(tmpDir, 'my bundles'));
+    fs.copyFileSync(
+      path.join(tmpDir, 'bundle.parquet'),
+      path.join(tmpDir, 'my bundles', 'docs bundle.parquet')
+    );
+    expect(await run('  my bundles/docs bundle.parquet  ')).toContain('Imported 3600 pages');
+
+    const imported = await run('bundle.parquet');
+    expect(imported).toContain(`Imported 3600 pages from ${path.join(tmpDir, 'bundle.parquet')}`);
+    expect(await hooks.tool['list_all_docs'].execute({}, {})).toContain('(3600 pages)');
+  });
+
+  it('docs_status reports the database age and docs tools warn once it is stale', async () => {
+    // seedDatabase pages were fetched on 2025-01-01, long past the 30-day default.
+    await seedDatabase();
+    const hooks = await plugin({ worktree: tmpDir });
+
+    const status = await hooks.tool['docs_status'].execute({}, {});
+    expect(status).toContain(`Documentation database: ${dbPath}`);
+    expect(status).toContain('Fetched: 2025-01-01T00:00:00.000Z');
+    expect(status).toContain('Pages: 2');
+    expect(status).toContain('Failed fetches: unknown');
+    expect(status).toContain('Run /refresh-docs');
+    expect(status).not.toContain('interrupted');
+
+    fs.writeFileSync(`${dbPath}.journal`, '');
+    expect(await hooks.tool['docs_status'].execute({}, {})).toContain(
+      'A refresh was interrupted before it finished. Run /refresh-docs to resume it'
+    );
+
+    // Another session's refresh is still running.
+    const owner = { pid: process.pid, acquiredAt: '2026-10-19T08:00:00.000Z' };
+    fs.writeFileSync(`${dbPath}.lock`, JSON.stringify(owner));
+    const running = await hooks.tool['docs_status'].execute({}, {});
+    expect(running).toContain(
+      `A refresh by process ${process.pid} (since 2026-10-19T08:00:00.000Z) is in progress`
+    );
+    expect(running).not.toContain('interrupted');
+    fs.rmSync(`${dbPath}.lock`);
+
+    const output = { title: '', output: 'Actions documentation content.', metadata: {} };
+    const after = hooks['tool.execute.after']!;
+    await after({ tool: 'get_doc_page', sessionID: 's', callID: 'c' }, output);
+    expect(output.output).toMatch(
+      /^Actions documentation content\.\n\nWarning: the documentation database is \d+ days old \(fetched 2025-01-01\)/
+    );
+
+    const snapshot = { title: '', output: 'Actions documentation content.', metadata: {} };
+    await hooks['tool.execute.before']!(
+      { tool: 'get_doc_page', sessionID: 's', callID: 'snapshot' },
+      { args: { url: '/docs/foundry/actions/', asOf: '2025-01-01' } }
+    );
+    await after({ tool: 'get_doc_page', sessionID: 's', callID: 'snapshot' }, snapshot);
+    expect(snapshot.output).toBe('Actions documentation content.');
+
+    const other = { title: '', output: 'unrelated', metadata: {} };
+    await after({ tool: 'bash', sessionID: 's', callID: 'c' }, other);
+    expect(other.output).toBe('unrelated');
+
+    fs.writeFileSync(
+      path.join(tmpDir, 'opencode.jsonc'),
+      JSON.stringify({ palantir_docs: { stale_after_days: 0 } })
+    );
+    const quiet = await plugin({ worktree: tmpDir });
+    const fresh = { title: '', output: 'text', metadata: {} };
+    await quiet['tool.execute.after']!({ tool: 'search_docs', sessionID: 's', callID: 'c' }, fresh);
+    expect(fresh.output).toBe('text');
+  });
+
+  it('picks up a database another session renamed over the open one', async () => {
+    await seedDatabase();
+    const hooks = await plugin({ worktree: tmpDir });
+    expect(await hooks.tool['search_docs'].execute({ query: 'ontology' }, {})).toContain(
+      'Ontology Overview'
+    );
+
+    const next = path.join(tmpDir, 'data', 'docs.next.parquet');
+    await writeParquet(
+      [
+        {
+          url: '/docs/foundry/quiver/',
+          title: 'Quiver',
+          content: 'Quiver analysis content.',
+          wordCount: 3,
+          meta: {},
+          fetchedAt: new Date().toISOString(),
+        },
+      ],
+      next
+    );
+    fs.renameSync(next, dbPath);
+
+    expect(await hooks.tool['search_docs'].execute({ query: 'quiver' }, {})).toContain('Quiver');
+    expect(
+      await hooks.tool['get_doc_page'].execute({ url: '/docs/foundry/quiver/' }, {})
+    ).toContain('Quiver analysis content.');
+    expect(await hooks.tool['docs_status'].execute({}, {})).toContain('Pages: 1');
+  });
+
   it('command.execute.before hook ignores non-refresh commands', async () => {
     const spy = vi.spyOn(fetchModule, 'fetchAllDocs');
     const hooks = await plugin({ worktree: tmpDir });
@@ -187,4 +1064,26 @@ describe('Plugin', () => {
     const listResult = await hooks.tool['list_all_docs'].execute({}, {});
     expect(listResult).toContain('2 pages');
   });
+
+  it('upgrades a database written by an older plugin version on first open', async () => {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    const legacy = parquetWriteBuffer({
+      columnData: [
+        { name: 'url', data: ['/docs/foundry/b/', '/docs/foundry/a/'], type: 'STRING' },
+        { name: 'title', data: ['B', 'A'], type: 'STRING' },
+        { name: 'content', data: ['Page B.', 'Page A.'], type: 'STRING' },
+        { name: 'word_count', data: [2, 2], type: 'INT32' },
+        { name: 'meta', data: [{}, {}], type: 'JSON' },
+        { name: 'fetched_at', data: ['2025-01-01', '2025-01-01'], type: 'STRING' },
+      ],
+      codec: 'UNCOMPRESSED',
+    });
+    fs.writeFileSync(dbPath, new Uint8Array(legacy));
+    const hooks = await plugin({ worktree: tmpDir });
+
+    const result = await hooks.tool['get_doc_page'].execute({ url: '/docs/foundry/a/' }, {});
+    expect(result).toBe('Page A.');
+    const metadata = parquetMetadata(fs.readFileSync(dbPath).buffer as ArrayBuffer);
+    expect(readSchemaVersion(metadata)).toBe(DOCS_SCHEMA_VERSION);
+  });
 });
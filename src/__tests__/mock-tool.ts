@@ -0,0 +1,37 @@
+import { mock } from 'bun:test';
+
+type MockField = Record<string, unknown>;
+
+function mockField(props: Record<string, unknown>): MockField {
+  return {
+    ...props,
+    describe: (d: string) => mockField({ ...props, _description: d }),
+    optional: () => mockField({ ...props, _optional: true }),
+    int: () => mockField(props),
+    min: () => mockField(props),
+    max: () => mockField(props),
+  };
+}
+
+/**
+ * Replace `@opencode-ai/plugin/tool` with a pass-through `tool()` and a chainable stand-in for its
+ * zod `schema`, so tests can inspect tool definitions without pulling in zod.
+ * Must be called before the plugin module is imported.
+ */
+export function mockToolModule(): void {
+  mock.module('@opencode-ai/plugin/tool', () => {
+    const mockSchema = {
+      string: () => mockField({ _type: 'string' }),
+      number: () => mockField({ _type: 'number' }),
+      boolean: () => mockField({ _type: 'boolean' }),
+      enum: (values: string[]) => mockField({ _type: 'enum', _values: values }),
+      array: (item: MockField) => mockField({ _type: 'array', _item: item }),
+      record: (key: MockField, value: MockField) =>
+        mockField({ _type: 'record', _key: key, _value: value }),
+    };
+    const toolFn = Object.assign((input: Record<string, unknown>) => input, {
+      schema: mockSchema,
+    });
+    return { tool: toolFn };
+  });
+}
@@ -1,10 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { mock } from 'bun:test';
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
 
 import * as mcpClient from '../palantir-mcp/mcp-client.ts';
+import { mockToolModule } from './mock-tool.ts';
 
 type MinimalHooks = Record<string, unknown>;
 type MinimalPlugin = (input: { worktree: string }) => Promise<MinimalHooks>;
@@ -29,17 +29,7 @@ function getFirstTextPart(output: CommandHookOutput): string {
   return part.text;
 }
 
-mock.module('@opencode-ai/plugin/tool', () => {
-  const mockSchema = {
-    string: () => ({
-      describe: (d: string) => ({ _type: 'string', _description: d }),
-    }),
-  };
-  const toolFn = Object.assign((input: Record<string, unknown>) => input, {
-    schema: mockSchema,
-  });
-  return { tool: toolFn };
-});
+mockToolModule();
 
 const plugin = (await import('../index.ts')).default as unknown as MinimalPlugin;
 
@@ -1,10 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { mock } from 'bun:test';
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
 
 import * as mcpClient from '../palantir-mcp/mcp-client.ts';
+import { mockToolModule } from './mock-tool.ts';
 
 type MinimalHooks = Record<string, unknown>;
 type MinimalPlugin = (input: { worktree: string }) => Promise<MinimalHooks>;
@@ -42,17 +42,7 @@ function getFirstTextPart(output: CommandHookOutput): string {
   return part.text;
 }
 
-mock.module('@opencode-ai/plugin/tool', () => {
-  const mockSchema = {
-    string: () => ({
-      describe: (d: string) => ({ _type: 'string', _description: d }),
-    }),
-  };
-  const toolFn = Object.assign((input: Record<string, unknown>) => input, {
-    schema: mockSchema,
-  });
-  return { tool: toolFn };
-});
+mockToolModule();
 
 const plugin = (await import('../index.ts')).default as unknown as MinimalPlugin;
 
@@ -187,10 +177,32 @@ describe('/setup-palantir-mcp', () => {
 
     expect(cfg.agent?.['foundry-librarian']?.tools?.get_doc_page).toBe(true);
     expect(cfg.agent?.['foundry-librarian']?.tools?.list_all_docs).toBe(true);
+    expect(cfg.agent?.['foundry-librarian']?.tools?.search_docs).toBe(true);
+    expect(cfg.agent?.['foundry-librarian']?.tools?.get_doc_section).toBe(true);
+    expect(cfg.agent?.['foundry-librarian']?.tools?.browse_docs).toBe(true);
+    expect(cfg.agent?.['foundry-librarian']?.tools?.related_docs).toBe(true);
+    expect(cfg.agent?.['foundry-librarian']?.tools?.find_similar_docs).toBe(true);
+    expect(cfg.agent?.['foundry-librarian']?.tools?.define_foundry_term).toBe(true);
+    expect(cfg.agent?.['foundry-librarian']?.tools?.find_doc_examples).toBe(true);
+    expect(cfg.agent?.['foundry-librarian']?.tools?.lookup_foundry_api).toBe(true);
+    expect(cfg.agent?.['foundry-librarian']?.tools?.get_doc_pages).toBe(true);
+    expect(cfg.agent?.['foundry-librarian']?.tools?.list_doc_facets).toBe(true);
+    expect(cfg.agent?.['foundry-librarian']?.tools?.docs_status).toBe(true);
 
     // execution agent defaults to no docs tools
     expect(cfg.agent?.foundry?.tools?.get_doc_page).toBe(false);
     expect(cfg.agent?.foundry?.tools?.list_all_docs).toBe(false);
+    expect(cfg.agent?.foundry?.tools?.search_docs).toBe(false);
+    expect(cfg.agent?.foundry?.tools?.get_doc_section).toBe(false);
+    expect(cfg.agent?.foundry?.tools?.browse_docs).toBe(false);
+    expect(cfg.agent?.foundry?.tools?.related_docs).toBe(false);
+    expect(cfg.agent?.foundry?.tools?.find_similar_docs).toBe(false);
+    expect(cfg.agent?.foundry?.tools?.define_foundry_term).toBe(false);
+    expect(cfg.agent?.foundry?.tools?.find_doc_examples).toBe(false);
+    expect(cfg.agent?.foundry?.tools?.lookup_foundry_api).toBe(false);
+    expect(cfg.agent?.foundry?.tools?.get_doc_pages).toBe(false);
+    expect(cfg.agent?.foundry?.tools?.list_doc_facets).toBe(false);
+    expect(cfg.agent?.foundry?.tools?.docs_status).toBe(false);
 
     expect(cfg.agent?.['foundry-librarian']?.tools?.['palantir-mcp_list_datasets']).toBe(true);
     expect(cfg.agent?.['foundry-librarian']?.tools?.['palantir-mcp_get_dataset']).toBe(true);
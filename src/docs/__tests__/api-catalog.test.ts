@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import type { PageText } from '../db.ts';
+import {
+  buildApiCatalog,
+  formatApiEndpoint,
+  parseApiPage,
+  searchApiCatalog,
+} from '../api-catalog.ts';
+
+const LIST_OBJECTS: PageText = {
+  url: '/foundry/api/v2/ontologies-v2-resources/ontology-objects/list-objects/',
+  title: 'List objects',
+  content: [
+    'List objects',
+    'GET /api/v2/ontologies/{ontology}/objects/{objectType}',
+    'Lists the objects for the given Ontology and object type.',
+    'Third-party applications using this endpoint via OAuth2 must request the following operation scope: api:ontologies-read',
+    'Path parameters',
+    'ontology OntologyIdentifier The API name of the ontology.',
+    'objectType ObjectTypeApiName The API name of the object type.',
+    'Query parameters',
+    'pageSize optional PageSize The desired size of the page to be returned.',
+    'pageToken optional PageToken',
+    'Response body',
+    'ListObjectsResponse data list of OntologyObjectV2 nextPageToken optional PageToken',
+  ].join('\n'),
+};
+
+const APPLY_ACTION: PageText = {
+  url: '/foundry/api/v2/ontologies-v2-resources/actions/apply-action/',
+  title: 'Apply action',
+  content:
+    'POST /api/v2/ontologies/{ontology}/actions/{action}/apply Applies an action using the given parameters. Scope: api:ontologies-write Request body ApplyActionRequestV2 parameters map Response body SyncApplyActionResponseV2',
+};
+
+const GUIDE: PageText = {
+  url: '/foundry/ontology/overview/',
+  title: 'Ontology overview',
+  content: 'The Ontology maps datasets to objects. Use the API to list objects.',
+};
+
+describe('API catalog', () => {
+  it('parses method, path, parameters, bodies and scopes', () => {
+    const [endpoint] = parseApiPage(LIST_OBJECTS);
+
+    expect(endpoint.method).toBe('GET');
+    expect(endpoint.path).toBe('/api/v2/ontologies/{ontology}/objects/{objectType}');
+    expect(endpoint.name).toBe('List objects');
+    expect(endpoint.description).toContain('Lists the objects for the given Ontology');
+    expect(endpoint.scopes).toEqual(['api:ontologies-read']);
+    expect(endpoint.parameters).toEqual([
+      { name: 'ontology', location: 'path', type: 'OntologyIdentifier', required: true },
+      { name: 'objectType', location: 'path', type: 'ObjectTypeApiName', required: true },
+      { name: 'pageSize', location: 'query', type: 'PageSize', required: false },
+      { name: 'pageToken', location: 'query', type: 'PageToken', required: false },
+    ]);
+    expect(endpoint.requestBody).toBeNull();
+    expect(endpoint.responseBody).toContain('ListObjectsResponse');
+  });
+
+  it('skips pages that document no endpoint', () => {
+    expect(parseApiPage(GUIDE)).toEqual([]);
+  });
+
+  it('searches by operation name, resource and exact path', () => {
+    const catalog = buildApiCatalog([LIST_OBJECTS, APPLY_ACTION, GUIDE]);
+
+    expect(searchApiCatalog(catalog, 'apply action')[0].path).toBe(
+      '/api/v2/ontologies/{ontology}/actions/{action}/apply'
+    );
+    expect(searchApiCatalog(catalog, 'objects')[0].name).toBe('List objects');
+    expect(
+      searchApiCatalog(catalog, '/api/v2/ontologies/{ontology}/actions/{action}/apply')[0].name
+    ).toBe('Apply action');
+    expect(searchApiCatalog(catalog, 'ontologies', { method: 'post' })).toHaveLength(1);
+  });
+
+  it('formats an endpoint with its parameters and scopes', () => {
+    const text = formatApiEndpoint(parseApiPage(APPLY_ACTION)[0]);
+
+    expect(text).toContain(
+      'POST /api/v2/ontologies/{ontology}/actions/{action}/apply — Apply action'
+    );
+    expect(text).toContain('Scopes: api:ontologies-write');
+    expect(text).toContain('Path parameters: ontology (required); action (required)');
+    expect(text).toContain('Request body: ApplyActionRequestV2 parameters map');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import type { PageRecord } from '../db.ts';
+import { allocateBudget, formatPageBatch } from '../batch.ts';
+
+function page(url: string, title: string, content: string): PageRecord {
+  return {
+    url,
+    title,
+    content,
+    wordCount: content.split(/\s+/).length,
+    meta: {},
+    fetchedAt: '2025-01-01T00:00:00.000Z',
+  };
+}
+
+describe('Batch page output', () => {
+  it('gives short pages their full length and splits the rest evenly', () => {
+    expect(allocateBudget([100, 1000, 1000], 900)).toEqual([100, 400, 400]);
+    expect(allocateBudget([100, 200], 1000)).toEqual([100, 200]);
+    expect(allocateBudget([500, 500, 500], 300)).toEqual([100, 100, 100]);
+  });
+
+  it('renders every page with a header and lists the ones that were cut', () => {
+    const long = 'First paragraph of the long page.\n\n' + 'More detail here. '.repeat(20);
+    const text = formatPageBatch(
+      [page('/a/', 'Short', 'Short page.'), page('/b/', 'Long', long)],
+      100
+    );
+
+    expect(text).toContain('=== [1/2] Short (/a/) · 11 chars ===\nShort page.');
+    expect(text).toMatch(/=== \[2\/2\] Long \(\/b\/\) · \d+ of \d+ chars ===/);
+    expect(text).toContain('Truncated to fit 100 chars:');
+    expect(text).toContain('- Long (/b/): showed');
+    expect(text).not.toContain('- Short (/a/): showed');
+  });
+
+  it('lists URLs that were not found with close matches', () => {
+    const text = formatPageBatch([page('/a/', 'A', 'Alpha.')], 1000, {
+      misses: [{ url: '/nope/', suggestions: [{ url: '/a/', title: 'A', score: 0.6 }] }],
+    });
+
+    expect(text).toContain('Not found:\n- /nope/ (did you mean /a/?)');
+    expect(text).not.toContain('Truncated');
+  });
+
+  it('prefixes each page with front matter when citations are on', () => {
+    const text = formatPageBatch([page('/foundry/a/', 'A', 'Alpha.')], 1000, { citations: true });
+
+    expect(text).toContain(
+      '=== [1/1] A (/foundry/a/) · 6 chars ===\n---\ntitle: "A"\nurl: https://www.palantir.com/docs/foundry/a/'
+    );
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CHARS_PER_TOKEN,
+  DEFAULT_CHUNK_CHARS,
+  MIN_CHUNK_CHARS,
+  chunkContent,
+  chunkIndexAtOffset,
+  decodeCursor,
+  encodeCursor,
+  findChunkEnd,
+  formatChunk,
+  resolveChunkChars,
+} from '../chunk.ts';
+
+function paragraph(label: string, length: number): string {
+  return `${label} ${'x'.repeat(length - label.length - 2)}.`;
+}
+
+describe('Content chunking', () => {
+  describe('resolveChunkChars', () => {
+    it('prefers maxChars, then maxTokens, then the default', () => {
+      expect(resolveChunkChars({ maxChars: 1000, maxTokens: 10 })).toBe(1000);
+      expect(resolveChunkChars({ maxTokens: 500 })).toBe(500 * CHARS_PER_TOKEN);
+      expect(resolveChunkChars({})).toBe(DEFAULT_CHUNK_CHARS);
+    });
+
+    it('never goes below the minimum chunk size', () => {
+      expect(resolveChunkChars({ maxChars: 5 })).toBe(MIN_CHUNK_CHARS);
+    });
+  });
+
+  describe('findChunkEnd', () => {
+    it('cuts after the last paragraph break in the back half of the window', () => {
+      const content = `${paragraph('A', 300)}\n\n${paragraph('B', 300)}\n\n${paragraph('C', 300)}`;
+
+      const end = findChunkEnd(content, 0, 700);
+      expect(content.slice(0, end)).toBe(`${paragraph('A', 300)}\n\n${paragraph('B', 300)}\n\n`);
+    });
+
+    it('falls back to sentence and then word boundaries', () => {
+      expect(findChunkEnd('One two. Three four five six', 0, 20)).toBe(9);
+      expect(findChunkEnd('alpha beta gamma delta', 0, 13)).toBe(11);
+    });
+
+    it('hard-cuts text without any whitespace', () => {
+      expect(findChunkEnd('x'.repeat(50), 0, 20)).toBe(20);
+    });
+  });
+
+  describe('chunkContent', () => {
+    it('covers the whole content without gaps or overlaps', () => {
+      const content = Array.from({ length: 12 }, (_, i) => paragraph(`P${i}`, 250)).join('\n\n');
+      const chunks = chunkContent(content, 800);
+
+      expect(chunks.length).toBeGreaterThan(3);
+      expect(chunks[0].start).toBe(0);
+      expect(chunks[chunks.length - 1].end).toBe(content.length);
+      for (let i = 1; i < chunks.length; i++) {
+        expect(chunks[i].start).toBe(chunks[i - 1].end);
+        expect(chunks[i].end - chunks[i].start).toBeLessThanOrEqual(800);
+      }
+      expect(chunks.map((c) => content.slice(c.start, c.end)).join('')).toBe(content);
+    });
+
+    it('returns one empty chunk for empty content', () => {
+      expect(chunkContent('', 500)).toEqual([{ index: 0, start: 0, end: 0 }]);
+    });
+  });
+
+  describe('chunkIndexAtOffset', () => {
+    it('finds the chunk containing an offset and clamps past the end', () => {
+      const chunks = [
+        { index: 0, start: 0, end: 10 },
+        { index: 1, start: 10, end: 20 },
+      ];
+      expect(chunkIndexAtOffset(chunks, 0)).toBe(0);
+      expect(chunkIndexAtOffset(chunks, 10)).toBe(1);
+      expect(chunkIndexAtOffset(chunks, 999)).toBe(1);
+    });
+  });
+
+  describe('cursors', () => {
+    it('round-trips through an opaque string', () => {
+      const cursor = { url: '/foundry/api/', maxChars: 4000, chunk: 3 };
+      const encoded = encodeCursor(cursor);
+
+      expect(encoded).not.toContain('/foundry/api/');
+      expect(decodeCursor(encoded)).toEqual(cursor);
+      const cut = { ...cursor, chunk: 0, start: 5975 };
+      expect(decodeCursor(encodeCursor(cut))).toEqual(cut);
+    });
+
+    it('rejects garbage and out-of-range values', () => {
+      expect(decodeCursor('not a cursor')).toBeNull();
+      expect(decodeCursor(encodeCursor({ url: '/a/', maxChars: 1, chunk: 0 }))).toBeNull();
+    });
+  });
+
+  describe('formatChunk', () => {
+    it('adds an N of M header and a cursor for the next chunk', () => {
+      const content = `${paragraph('A', 300)}\n\n${paragraph('B', 300)}`;
+      const chunks = chunkContent(content, 400);
+
+      const first = formatChunk(content, chunks, 0, '/a/', 400);
+      expect(first).toMatch(/^\[Chunk 1 of 2 · chars 0-302 of 602\]/);
+      const cursor = /cursor "([^"]+)"/.exec(first)?.[1];
+      expect(decodeCursor(cursor!)).toEqual({ url: '/a/', maxChars: 400, chunk: 1 });
+
+      const last = formatChunk(content, chunks, 1, '/a/', 400);
+      expect(last).toContain('[Chunk 2 of 2');
+      expect(last).toContain('[End of page]');
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { formatFrontMatter, formatSourcesFrontMatter } from '../citation.ts';
+import { readFilters, type PageRecord } from '../db.ts';
+import { canonicalDocUrl } from '../resolve.ts';
+
+const PAGE: PageRecord = {
+  url: '/docs/foundry/ontology/overview/',
+  title: 'Ontology "overview"',
+  content: 'The Ontology maps datasets to objects.',
+  wordCount: 6,
+  meta: { filters: { product: ['Foundry'], section: [], empty: 'x' }, anchors: [] },
+  fetchedAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('Citation front matter', () => {
+  it('builds canonical palantir.com URLs from any stored form', () => {
+    expect(canonicalDocUrl('/foundry/ontology/overview')).toBe(
+      'https://www.palantir.com/docs/foundry/ontology/overview/'
+    );
+    expect(canonicalDocUrl('/docs/foundry/ontology/overview/')).toBe(
+      'https://www.palantir.com/docs/foundry/ontology/overview/'
+    );
+  });
+
+  it('reads string filters and drops empty ones', () => {
+    expect(readFilters(PAGE.meta)).toEqual({ product: ['Foundry'], empty: ['x'] });
+    expect(readFilters({})).toEqual({});
+  });
+
+  it('formats title, canonical URL, freshness, size and filters', () => {
+    expect(formatFrontMatter(PAGE, 'core-concepts')).toBe(
+      [
+        '---',
+        'title: "Ontology \\"overview\\""',
+        'url: https://www.palantir.com/docs/foundry/ontology/overview/#core-concepts',
+        'fetched_at: 2025-01-01T00:00:00.000Z',
+        'word_count: 6',
+        'filters:',
+        '  product: ["Foundry"]',
+        '  empty: ["x"]',
+        '---',
+      ].join('\n')
+    );
+  });
+
+  it('lists the canonical URL and age of each page a result mentions', () => {
+    const other = { ...PAGE, url: '/foundry/actions/', title: 'Actions', fetchedAt: 't2' };
+    expect(formatSourcesFrontMatter([PAGE, other])).toBe(
+      [
+        '---',
+        'sources:',
+        '  - title: "Ontology \\"overview\\""',
+        '    url: https://www.palantir.com/docs/foundry/ontology/overview/',
+        '    fetched_at: 2025-01-01T00:00:00.000Z',
+        '  - title: "Actions"',
+        '    url: https://www.palantir.com/docs/foundry/actions/',
+        '    fetched_at: t2',
+        '---',
+      ].join('\n')
+    );
+  });
+});
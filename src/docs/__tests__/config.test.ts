@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CONTEXT_AGENTS,
+  DEFAULT_SNAPSHOT_KEEP,
+  DEFAULT_STALE_AFTER_DAYS,
+  parseDocsConfig,
+} from '../config.ts';
+
+describe('parseDocsConfig', () => {
+  it('returns defaults when the section is missing or malformed', () => {
+    for (const data of [null, {}, { palantir_docs: 'yes' }]) {
+      expect(parseDocsConfig(data).systemContext).toEqual({
+        enabled: true,
+        file: null,
+        agents: [...DEFAULT_CONTEXT_AGENTS],
+      });
+    }
+  });
+
+  it('reads a docs path override', () => {
+    expect(parseDocsConfig({}).path).toBeNull();
+    expect(parseDocsConfig({ palantir_docs: { path: ' ~/docs.parquet ' } }).path).toBe(
+      '~/docs.parquet'
+    );
+  });
+
+  it('reads the staleness threshold, allowing 0 to turn warnings off', () => {
+    expect(parseDocsConfig({}).staleAfterDays).toBe(DEFAULT_STALE_AFTER_DAYS);
+    expect(parseDocsConfig({ palantir_docs: { stale_after_days: 0 } }).staleAfterDays).toBe(0);
+    expect(parseDocsConfig({ palantir_docs: { stale_after_days: -1 } }).staleAfterDays).toBe(
+      DEFAULT_STALE_AFTER_DAYS
+    );
+  });
+
+  it('leaves citations off unless enabled', () => {
+    expect(parseDocsConfig({}).citations).toBe(false);
+    expect(parseDocsConfig({ palantir_docs: { citations: true } }).citations).toBe(true);
+  });
+
+  it('reads snapshot settings, ignoring an invalid keep count', () => {
+    expect(parseDocsConfig({}).snapshots).toEqual({ enabled: false, keep: DEFAULT_SNAPSHOT_KEEP });
+    expect(parseDocsConfig({ palantir_docs: { snapshots: true } }).snapshots.enabled).toBe(true);
+    expect(parseDocsConfig({ palantir_docs: { snapshots: { keep: 3 } } }).snapshots).toEqual({
+      enabled: true,
+      keep: 3,
+    });
+    expect(parseDocsConfig({ palantir_docs: { snapshots: { keep: 0 } } }).snapshots.keep).toBe(
+      DEFAULT_SNAPSHOT_KEEP
+    );
+  });
+
+  it('accepts a boolean shorthand for system_context', () => {
+    const config = parseDocsConfig({ palantir_docs: { system_context: false } });
+
+    expect(config.systemContext.enabled).toBe(false);
+  });
+
+  it('reads file and agents, dropping non-string agents', () => {
+    const config = parseDocsConfig({
+      palantir_docs: {
+        system_context: { file: 'docs/overview.md', agents: ['foundry', 42, 'build'] },
+      },
+    });
+
+    expect(config.systemContext).toEqual({
+      enabled: true,
+      file: 'docs/overview.md',
+      agents: ['foundry', 'build'],
+    });
+  });
+});
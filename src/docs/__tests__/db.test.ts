@@ -2,8 +2,16 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import fs from 'node:fs';
 import path from 'node:path';
 import os from 'node:os';
+import { parquetWriteBuffer } from 'hyparquet-writer';
 import { writeParquet } from '../write-parquet.ts';
-import { createDatabase, getPage, getAllPages, closeDatabase, type PageRecord } from '../db.ts';
+import {
+  createDatabase,
+  getPage,
+  getAllPages,
+  closeDatabase,
+  SORT_ORDER_KEY,
+  type PageRecord,
+} from '../db.ts';
 
 describe('Parquet Database Layer', () => {
   let tmpDir: string;
@@ -35,7 +43,7 @@ describe('Parquet Database Layer', () => {
       const store = await createDatabase(parquetPath);
 
       expect(store).toBeDefined();
-      expect(store.file).toBeInstanceOf(ArrayBuffer);
+      expect(store.file.byteLength).toBe(fs.statSync(parquetPath).size);
       expect(store.index).toHaveLength(1);
       expect(store.index[0].url).toBe('https://example.com/docs/getting-started');
       expect(store.index[0].title).toBe('Getting Started');
@@ -112,6 +120,46 @@ describe('Parquet Database Layer', () => {
 
       expect(result).toBeNull();
     });
+
+    it('keeps the most recently used pages decoded, up to pageCacheSize', async () => {
+      const pages: PageRecord[] = ['a', 'b', 'c'].map((id) => ({
+        url: `https://example.com/${id}`,
+        title: id,
+        content: `Content ${id}`,
+        wordCount: 2,
+        meta: {},
+        fetchedAt: new Date().toISOString(),
+      }));
+
+      await writeParquet(pages, parquetPath);
+      const store = await createDatabase(parquetPath, { pageCacheSize: 2 });
+      const a = await getPage(store, 'https://example.com/a');
+      await getPage(store, 'https://example.com/b');
+      expect(await getPage(store, 'https://example.com/a')).toBe(a);
+      await getPage(store, 'https://example.com/c');
+
+      // b was least recently used when c arrived.
+      expect(Array.from(store.pageCache.keys())).toEqual([0, 2]);
+      closeDatabase(store);
+    });
+
+    it('keeps reading the opened file after a new database is renamed over it', async () => {
+      const page = (content: string): PageRecord => ({
+        url: 'https://example.com/a',
+        title: 'A',
+        content,
+        wordCount: 1,
+        meta: {},
+        fetchedAt: new Date().toISOString(),
+      });
+
+      await writeParquet([page('Old content')], parquetPath);
+      const store = await createDatabase(parquetPath, { pageCacheSize: 0 });
+      await writeParquet([page('New content, a little longer')], parquetPath);
+
+      expect((await getPage(store, 'https://example.com/a'))?.content).toBe('Old content');
+      closeDatabase(store);
+    });
   });
 
   describe('getAllPages', () => {
@@ -179,6 +227,29 @@ describe('Parquet Database Layer', () => {
       expect(store.index).toHaveLength(0);
       expect(store.urlToRow.size).toBe(0);
     });
+
+    it('lets reads in flight finish before closing the file', async () => {
+      const page: PageRecord = {
+        url: '/docs/foundry/close/',
+        title: 'Close',
+        content: 'Content read while closing.',
+        wordCount: 4,
+        meta: {},
+        fetchedAt: new Date().toISOString(),
+      };
+      await writeParquet([page], parquetPath);
+      const store = await createDatabase(parquetPath);
+
+      const pending = store.file.slice(0, store.file.byteLength);
+      closeDatabase(store);
+
+      expect(store.handle.closed).toBe(true);
+      expect((await pending).byteLength).toBe(fs.statSync(parquetPath).size);
+      expect(store.handle.reads).toBe(0);
+      await expect(Promise.resolve(store.file.slice(0, 4))).rejects.toThrow(
+        'The docs database was closed'
+      );
+    });
   });
 
   describe('full round-trip', () => {
@@ -232,4 +303,67 @@ describe('Parquet Database Layer', () => {
       expect(store.index).toHaveLength(0);
     });
   });
+
+  describe('layout', () => {
+    function numbered(count: number): PageRecord[] {
+      // Descending, so the writer has to sort them.
+      return Array.from({ length: count }, (_, i) => ({
+        url: `/foundry/section/page-${String(count - i).padStart(4, '0')}/`,
+        title: `Page ${count - i}`,
+        content: `Content of page ${count - i}.`,
+        wordCount: 4,
+        meta: {},
+        fetchedAt: '2026-09-01T10:00:00.000Z',
+      }));
+    }
+
+    it('writes URL-sorted, compressed row groups with statistics', async () => {
+      await writeParquet(numbered(250), parquetPath, { rowGroupSize: 100 });
+      const store = await createDatabase(parquetPath);
+
+      expect(store.metadata.key_value_metadata).toContainEqual({
+        key: SORT_ORDER_KEY,
+        value: 'url',
+      });
+      const urls = store.index.map((p) => p.url);
+      expect(urls).toEqual([...urls].sort());
+      expect(store.metadata.row_groups.map((g) => Number(g.num_rows))).toEqual([100, 100, 50]);
+      for (const group of store.metadata.row_groups) {
+        expect(group.columns[0].meta_data?.codec).toBe('SNAPPY');
+        expect(group.columns[0].meta_data?.statistics?.min_value).toBeDefined();
+      }
+      closeDatabase(store);
+    });
+
+    it('reads pages from any row group', async () => {
+      await writeParquet(numbered(250), parquetPath, { rowGroupSize: 100 });
+      const store = await createDatabase(parquetPath);
+
+      expect((await getPage(store, '/foundry/section/page-0001/'))?.title).toBe('Page 1');
+      expect((await getPage(store, '/foundry/section/page-0120/'))?.title).toBe('Page 120');
+      expect((await getPage(store, '/foundry/section/page-0250/'))?.title).toBe('Page 250');
+      expect(await getPage(store, '/foundry/section/page-0999/')).toBeNull();
+      closeDatabase(store);
+    });
+
+    it('looks up pages in unsorted files written before this layout', async () => {
+      const buffer = parquetWriteBuffer({
+        columnData: [
+          { name: 'url', data: ['/z/', '/a/'], type: 'STRING' },
+          { name: 'title', data: ['Z', 'A'], type: 'STRING' },
+          { name: 'content', data: ['Last', 'First'], type: 'STRING' },
+          { name: 'word_count', data: [1, 1], type: 'INT32' },
+          { name: 'meta', data: [{}, {}], type: 'JSON' },
+          { name: 'fetched_at', data: ['t', 't'], type: 'STRING' },
+        ],
+        codec: 'UNCOMPRESSED',
+      });
+      fs.writeFileSync(parquetPath, new Uint8Array(buffer));
+      const store = await createDatabase(parquetPath);
+
+      expect((await getPage(store, '/a/'))?.content).toBe('First');
+      expect((await getPage(store, '/z/'))?.content).toBe('Last');
+      closeDatabase(store);
+    });
+  });
 });
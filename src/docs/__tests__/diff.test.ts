@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import {
+  contentHash,
+  diffSnapshots,
+  diffText,
+  formatDocsDiff,
+  formatPageDiff,
+  type SnapshotDigest,
+} from '../diff.ts';
+
+function digest(pages: Record<string, string>): SnapshotDigest {
+  return new Map(
+    Object.entries(pages).map(([url, content]) => [
+      url,
+      { title: url.split('/').filter(Boolean).pop() ?? url, hash: contentHash(content) },
+    ])
+  );
+}
+
+describe('Docs diff', () => {
+  it('classifies pages as added, removed, modified or unchanged by URL and content hash', () => {
+    const previous = digest({ '/a/': 'Alpha.', '/b/': 'Beta.', '/c/': 'Gamma.' });
+    const current = digest({ '/a/': 'Alpha.', '/b/': 'Beta, revised.', '/d/': 'Delta.' });
+
+    const diff = diffSnapshots(previous, current);
+    expect(diff.added).toEqual([{ url: '/d/', title: 'd' }]);
+    expect(diff.removed).toEqual([{ url: '/c/', title: 'c' }]);
+    expect(diff.modified).toEqual([{ url: '/b/', title: 'b' }]);
+    expect(diff.unchanged).toBe(1);
+
+    const text = formatDocsDiff(diff);
+    expect(text).toContain('1 added, 1 removed, 1 modified, 1 unchanged');
+    expect(text).toContain('Added (1):\n- d (/d/)');
+    expect(text).toContain('Modified (1):\n- b (/b/)');
+  });
+
+  it('reports when nothing changed', () => {
+    const same = digest({ '/a/': 'Alpha.' });
+    expect(formatDocsDiff(diffSnapshots(same, same))).toBe(
+      'No documentation changes since the previous snapshot (1 pages).'
+    );
+  });
+
+  it('diffs page text sentence by sentence', () => {
+    const before = 'Intro. Objects have properties. Links connect objects. Outro.';
+    const after = 'Intro. Objects have typed properties. Links connect objects. Outro.';
+
+    expect(diffText(before, after)).toEqual([
+      { op: ' ', text: 'Intro.' },
+      { op: '-', text: 'Objects have properties.' },
+      { op: '+', text: 'Objects have typed properties.' },
+      { op: ' ', text: 'Links connect objects.' },
+      { op: ' ', text: 'Outro.' },
+    ]);
+  });
+
+  it('shows changed lines with context and collapses unchanged runs', () => {
+    const lines = Array.from({ length: 10 }, (_, i) => `Line ${i}`);
+    const changed = [...lines];
+    changed[8] = 'Line eight';
+    const page = { url: '/a/', title: 'A' };
+
+    expect(formatPageDiff(page, lines.join('\n'), changed.join('\n'))).toBe(
+      [
+        'Changes to A (/a/) since the previous snapshot (1 lines removed, 1 added):',
+        '',
+        '…',
+        '  Line 6',
+        '  Line 7',
+        '- Line 8',
+        '+ Line eight',
+        '  Line 9',
+      ].join('\n')
+    );
+    expect(formatPageDiff(page, null, 'x')).toBe('A (/a/) was added since the previous snapshot.');
+    expect(formatPageDiff(page, 'x', null)).toBe(
+      'A (/a/) was removed since the previous snapshot.'
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import type { PageText } from '../db.ts';
+import {
+  buildExamplesIndex,
+  detectLanguage,
+  extractExamples,
+  formatExamples,
+  searchExamples,
+} from '../examples.ts';
+
+const PYTHON_PAGE: PageText = {
+  url: '/foundry/transforms-python/transforms/',
+  title: 'Python transforms',
+  content: [
+    'Transforms',
+    'Define a transform with the transform_df decorator.',
+    'from transforms.api import transform_df, Input, Output',
+    '@transform_df(Output("/out"), source=Input("/in"))',
+    'def compute(source):',
+    '    return source',
+    'The output dataset is written on build.',
+  ].join('\n'),
+};
+
+const OSDK_PAGE: PageText = {
+  url: '/foundry/ontology-sdk/typescript/',
+  title: 'OSDK for TypeScript',
+  content:
+    'Create a client first. Then query objects.\n```ts\nimport { createClient } from "@osdk/client";\nconst client = createClient(url, ontologyRid, auth);\n```\nThe client is typed.',
+};
+
+const PROSE_PAGE: PageText = {
+  url: '/foundry/ontology/overview/',
+  title: 'Ontology overview',
+  content:
+    'Use the @transform_df decorator in Python transforms. Select data from the source (for example, a dataset) and build it.',
+};
+
+describe('Doc examples', () => {
+  it('detects languages from code signatures', () => {
+    expect(detectLanguage('def compute(df):\n    return df.filter(df.x > 1)')).toBe('python');
+    expect(detectLanguage('const client = createClient(url);')).toBe('typescript');
+    expect(detectLanguage('SELECT name FROM employees GROUP BY name')).toBe('sql');
+    expect(detectLanguage('Objects have properties.')).toBe('unknown');
+  });
+
+  it('joins consecutive code lines into one snippet with surrounding prose', () => {
+    const [example] = extractExamples(PYTHON_PAGE);
+
+    expect(example.language).toBe('python');
+    expect(example.code).toBe(
+      [
+        'from transforms.api import transform_df, Input, Output',
+        '@transform_df(Output("/out"), source=Input("/in"))',
+        'def compute(source):',
+        'return source',
+      ].join('\n')
+    );
+    expect(example.before).toBe('Transforms Define a transform with the transform_df decorator.');
+    expect(example.after).toBe('The output dataset is written on build.');
+  });
+
+  it('keeps fenced blocks verbatim and uses their language tag', () => {
+    const examples = extractExamples(OSDK_PAGE);
+
+    expect(examples).toHaveLength(1);
+    expect(examples[0].language).toBe('typescript');
+    expect(examples[0].code).toBe(
+      'import { createClient } from "@osdk/client";\nconst client = createClient(url, ontologyRid, auth);'
+    );
+    expect(examples[0].after).toBe('The client is typed.');
+  });
+
+  it('ignores prose that merely mentions code', () => {
+    expect(extractExamples(PROSE_PAGE)).toEqual([]);
+  });
+
+  it('ranks by query terms and filters by language', () => {
+    const examples = buildExamplesIndex([PYTHON_PAGE, OSDK_PAGE, PROSE_PAGE]);
+
+    const hits = searchExamples(examples, 'createClient');
+    expect(hits.map((h) => h.url)).toEqual(['/foundry/ontology-sdk/typescript/']);
+
+    expect(searchExamples(examples, 'client', { language: 'ts' })).toHaveLength(1);
+    expect(searchExamples(examples, 'client', { language: 'python' })).toEqual([]);
+    expect(formatExamples('client', [], 'python')).toBe(
+      'No code examples matched "client" in python.'
+    );
+  });
+});
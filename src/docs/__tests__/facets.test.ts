@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { writeParquet } from '../write-parquet.ts';
+import { createDatabase, getAllPages, getFacetIndex, type PageRecord } from '../db.ts';
+import { filterByFacetUrls, formatFacets, matchFacets } from '../facets.ts';
+
+function page(url: string, filters: Record<string, string[]>): PageRecord {
+  return {
+    url,
+    title: url,
+    content: 'content',
+    wordCount: 1,
+    meta: { filters, anchors: [] },
+    fetchedAt: '2025-01-01T00:00:00.000Z',
+  };
+}
+
+const PAGES: PageRecord[] = [
+  page('/foundry/ontology/', { product: ['Foundry'], section: ['Ontology'] }),
+  page('/foundry/workshop/', { product: ['Foundry'], section: ['Applications'] }),
+  page('/apollo/overview/', { product: ['Apollo'] }),
+  page('/untagged/', {}),
+];
+
+describe('Doc facets', () => {
+  let tmpDir: string;
+  let parquetPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'facets-test-'));
+    parquetPath = path.join(tmpDir, 'docs.parquet');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('indexes Pagefind filters from page meta', async () => {
+    await writeParquet(PAGES, parquetPath);
+    const index = await getFacetIndex(await createDatabase(parquetPath));
+
+    expect(Array.from(index.keys()).sort()).toEqual(['product', 'section']);
+    expect(index.get('product')?.get('Foundry')).toEqual(
+      new Set(['/foundry/ontology/', '/foundry/workshop/'])
+    );
+  });
+
+  it('intersects facets and matches names and values case-insensitively', async () => {
+    await writeParquet(PAGES, parquetPath);
+    const store = await createDatabase(parquetPath);
+    const index = await getFacetIndex(store);
+
+    const match = matchFacets(index, { Product: 'foundry', section: 'ontology' });
+    expect('urls' in match && filterByFacetUrls(getAllPages(store), match.urls)).toEqual([
+      { url: '/foundry/ontology/', title: '/foundry/ontology/' },
+    ]);
+
+    expect(matchFacets(index, { language: 'en' })).toEqual({ error: 'Unknown facet: language' });
+    expect(matchFacets(index, { product: 'Gotham' })).toEqual({
+      error: 'Unknown value for facet product: Gotham',
+    });
+  });
+
+  it('formats facets with page counts', async () => {
+    await writeParquet(PAGES, parquetPath);
+    const index = await getFacetIndex(await createDatabase(parquetPath));
+
+    const all = formatFacets(index);
+    expect(all).toContain('product (2 values):\n- Foundry (2 pages)\n- Apollo (1 pages)');
+    expect(all).toContain('section (2 values):');
+
+    expect(formatFacets(index, 'SECTION')).toBe(
+      'Values of facet "section" (2):\n\n- Applications (1 pages)\n- Ontology (1 pages)'
+    );
+    expect(formatFacets(index, 'nope')).toContain('Available facets: product, section');
+    expect(formatFacets(new Map())).toContain('No facets found');
+  });
+});
@@ -2,6 +2,10 @@ import { describe, it, expect, vi, afterEach } from 'vitest';
 import { gzipSync } from 'node:zlib';
 import fs from 'node:fs';
 import { encode } from 'cborg';
+import { createDatabase, getAllPageRecords, closeDatabase, type PageRecord } from '../db.ts';
+import { journalPath, openJournal } from '../journal.ts';
+import { readRefreshStats, writeParquet } from '../write-parquet.ts';
+import { listSnapshots, previousSnapshotPath } from '../snapshots.ts';
 import {
   PAGEFIND_BASE,
   PAGEFIND_HEADER_SIZE,
@@ -400,5 +404,280 @@ describe('Pagefind Fetcher', () => {
       expect(result.failedUrls).toHaveLength(0);
       expect(result.dbPath).toBe(outPath);
     });
+
+    it('keeps the replaced database as the previous snapshot', async () => {
+      const entryResponse = {
+        version: '1.0.0',
+        languages: { en: { hash: 'lang_abc', wasm: 'w', page_count: 0 } },
+      };
+      setMockFetch(
+        vi.fn().mockImplementation(async (url: string) => {
+          if (url.includes('pagefind-entry.json')) {
+            return { ok: true, json: () => Promise.resolve(entryResponse) };
+          }
+          const metaBuf = makeMetaBuffer([]);
+          return { ok: true, arrayBuffer: () => Promise.resolve(toArrayBuffer(metaBuf)) };
+        })
+      );
+
+      const outPath = tmpParquetPath();
+      const previousPath = previousSnapshotPath(outPath);
+      tmpFiles.push(previousPath);
+      fs.writeFileSync(outPath, 'old database');
+
+      await fetchAllDocs(outPath);
+
+      expect(fs.readFileSync(previousPath, 'utf8')).toBe('old database');
+      expect(fs.readFileSync(outPath, 'utf8')).not.toBe('old database');
+    });
+
+    it('writes a dated snapshot when snapshots are enabled', async () => {
+      const entryResponse = {
+        version: '1.0.0',
+        languages: { en: { hash: 'lang_abc', wasm: 'w', page_count: 0 } },
+      };
+      setMockFetch(
+        vi.fn().mockImplementation(async (url: string) => {
+          if (url.includes('pagefind-entry.json')) {
+            return { ok: true, json: () => Promise.resolve(entryResponse) };
+          }
+          const metaBuf = makeMetaBuffer([]);
+          return { ok: true, arrayBuffer: () => Promise.resolve(toArrayBuffer(metaBuf)) };
+        })
+      );
+
+      const outPath = tmpParquetPath();
+      const result = await fetchAllDocs(outPath, { snapshots: { keep: 3 } });
+      tmpFiles.push(result.snapshotPath!);
+
+      const snapshots = await listSnapshots(outPath);
+      expect(snapshots.map((s) => s.path)).toEqual([result.snapshotPath]);
+      expect(snapshots[0].date).toBe(new Date().toISOString().slice(0, 10));
+      expect(fs.readFileSync(result.snapshotPath!)).toEqual(fs.readFileSync(outPath));
+    });
+
+    it('only downloads new fragments and reports added, updated and removed pages', async () => {
+      const fragment = (url: string, content: string): Record<string, unknown> => ({
+        url,
+        content,
+        meta: { title: url },
+        word_count: 1,
+        filters: {},
+        anchors: [],
+      });
+      const fragments: Record<string, Record<string, unknown>> = {
+        hash_alpha: fragment('/alpha/', 'Alpha'),
+        hash_beta: fragment('/beta/', 'Beta'),
+        hash_gamma: fragment('/gamma/', 'Gamma'),
+        hash_beta2: fragment('/beta/', 'Beta, revised'),
+        hash_delta: fragment('/delta/', 'Delta'),
+      };
+      let listed: string[] = [];
+      const fetched: string[] = [];
+      setMockFetch(
+        vi.fn().mockImplementation(async (url: string) => {
+          if (url.includes('pagefind-entry.json')) {
+            const entry = {
+              version: '1',
+              languages: { en: { hash: 'l', wasm: 'w', page_count: 0 } },
+            };
+            return { ok: true, json: () => Promise.resolve(entry) };
+          }
+          if (url.includes('pf_meta')) {
+            const buf = makeMetaBuffer(listed.map((page_hash) => ({ page_hash, word_count: 1 })));
+            return { ok: true, arrayBuffer: () => Promise.resolve(toArrayBuffer(buf)) };
+          }
+          const hash = url.match(/fragment\/(.+)\.pf_fragment/)![1];
+          fetched.push(hash);
+          const buf = makeFragmentBuffer(fragments[hash]);
+          return { ok: true, arrayBuffer: () => Promise.resolve(toArrayBuffer(buf)) };
+        })
+      );
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+
+      const outPath = tmpParquetPath();
+      tmpFiles.push(previousSnapshotPath(outPath));
+      listed = ['hash_alpha', 'hash_beta', 'hash_gamma'];
+      const first = await fetchAllDocs(outPath);
+      expect(first.changes).toEqual({ added: 3, updated: 0, removed: 0 });
+
+      fetched.length = 0;
+      listed = ['hash_alpha', 'hash_beta2', 'hash_delta'];
+      const second = await fetchAllDocs(outPath);
+
+      expect(fetched.sort()).toEqual(['hash_beta2', 'hash_delta']);
+      expect(second).toMatchObject({
+        totalPages: 3,
+        fetchedPages: 2,
+        unchangedPages: 1,
+        changes: { added: 1, updated: 1, removed: 1 },
+      });
+      const store = await createDatabase(outPath);
+      const pages = await getAllPageRecords(store);
+      closeDatabase(store);
+      expect(pages.map((p) => [p.url, p.content, p.fragmentHash])).toEqual([
+        ['/alpha/', 'Alpha', 'hash_alpha'],
+        ['/beta/', 'Beta, revised', 'hash_beta2'],
+        ['/delta/', 'Delta', 'hash_delta'],
+      ]);
+
+      fetched.length = 0;
+      const full = await fetchAllDocs(outPath, { full: true });
+      expect(fetched).toHaveLength(3);
+      expect(full).toMatchObject({
+        fetchedPages: 3,
+        unchangedPages: 3,
+        changes: { added: 0, updated: 0, removed: 0 },
+      });
+    });
+
+    describe('resuming an interrupted refresh', () => {
+      const fragment = (url: string): Record<string, unknown> => ({
+        url,
+        content: `Content of ${url}`,
+        meta: { title: url },
+        word_count: 3,
+        filters: {},
+        anchors: [],
+      });
+      const journaledPage = (url: string, fragmentHash: string): PageRecord => ({
+        url,
+        title: url,
+        content: `Content of ${url}`,
+        wordCount: 3,
+        meta: {},
+        fetchedAt: '2026-10-01T00:00:00.000Z',
+        fragmentHash,
+      });
+      let fetched: string[];
+
+      function mockPagefind(listed: string[], fragments: Record<string, string>): void {
+        fetched = [];
+        setMockFetch(
+          vi.fn().mockImplementation(async (url: string) => {
+            if (url.includes('pagefind-entry.json')) {
+              const entry = {
+                version: '1',
+                languages: { en: { hash: 'l', wasm: 'w', page_count: 0 } },
+              };
+              return { ok: true, json: () => Promise.resolve(entry) };
+            }
+            if (url.includes('pf_meta')) {
+              const buf = makeMetaBuffer(listed.map((page_hash) => ({ page_hash, word_count: 3 })));
+              return { ok: true, arrayBuffer: () => Promise.resolve(toArrayBuffer(buf)) };
+            }
+            const hash = url.match(/fragment\/(.+)\.pf_fragment/)![1];
+            fetched.push(hash);
+            if (!fragments[hash]) return { ok: false, status: 404, statusText: 'Not Found' };
+            const buf = makeFragmentBuffer(fragment(fragments[hash]));
+            return { ok: true, arrayBuffer: () => Promise.resolve(toArrayBuffer(buf)) };
+          })
+        );
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+      }
+
+      it('skips fragments checkpointed by the interrupted run and removes the journal', async () => {
+        const outPath = tmpParquetPath();
+        tmpFiles.push(journalPath(outPath));
+        const journal = openJournal(outPath);
+        journal.append(journaledPage('/a/', 'hash_a'));
+        journal.append(journaledPage('/b/', 'hash_b'));
+        await journal.flush();
+        // The interruption cut the last line short.
+        fs.appendFileSync(journalPath(outPath), '{"url":"/c/","con');
+
+        mockPagefind(['hash_a', 'hash_b', 'hash_c'], { hash_c: '/c/' });
+        const result = await fetchAllDocs(outPath);
+
+        expect(fetched).toEqual(['hash_c']);
+        expect(result).toMatchObject({ fetchedPages: 1, resumedPages: 2, pendingPages: 0 });
+        expect(result.changes).toEqual({ added: 3, updated: 0, removed: 0 });
+        expect(fs.existsSync(journalPath(outPath))).toBe(false);
+        const store = await createDatabase(outPath);
+        expect(store.index.map((p) => p.url)).toEqual(['/a/', '/b/', '/c/']);
+        closeDatabase(store);
+      });
+
+      it('writes the checkpointed pages and keeps previous versions when accepting a partial result', async () => {
+        const outPath = tmpParquetPath();
+        tmpFiles.push(journalPath(outPath), previousSnapshotPath(outPath));
+        const stats = { fetchedAt: '2026-09-01T00:00:00.000Z', totalPages: 2, failedPages: 0 };
+        await writeParquet(
+          [
+            { ...journaledPage('/a/', 'old_a'), content: 'Old a', fetchedAt: 'old' },
+            { ...journaledPage('/b/', 'old_b'), content: 'Old b', fetchedAt: 'old' },
+          ],
+          outPath,
+          { stats }
+        );
+        const journal = openJournal(outPath);
+        journal.append(journaledPage('/a/', 'hash_a'));
+        await journal.flush();
+
+        mockPagefind(['hash_a', 'hash_b'], { hash_b: '/b/' });
+        const result = await fetchAllDocs(outPath, { acceptPartial: true });
+
+        expect(fetched).toEqual([]);
+        expect(result).toMatchObject({
+          fetchedPages: 0,
+          resumedPages: 1,
+          pendingPages: 1,
+          keptPages: 1,
+          changes: { added: 0, updated: 1, removed: 0 },
+        });
+        const store = await createDatabase(outPath);
+        const pages = await getAllPageRecords(store);
+        closeDatabase(store);
+        expect(pages.map((p) => [p.url, p.content, p.fetchedAt])).toEqual([
+          ['/a/', 'Content of /a/', '2026-10-01T00:00:00.000Z'],
+          ['/b/', 'Old b', 'old'],
+        ]);
+        // Not a complete refresh, so the database still dates from the last one.
+        expect(readRefreshStats(store.metadata)).toEqual(stats);
+        expect(fs.existsSync(journalPath(outPath))).toBe(false);
+      });
+
+      it('refuses to accept a partial result when no refresh was interrupted', async () => {
+        const outPath = tmpParquetPath();
+        await writeParquet([journaledPage('/a/', 'hash_a')], outPath);
+        const before = fs.readFileSync(outPath);
+        mockPagefind(['hash_a'], {});
+
+        await expect(fetchAllDocs(outPath, { acceptPartial: true })).rejects.toThrow(
+          'There is no interrupted refresh to accept'
+        );
+        expect(fetched).toEqual([]);
+        expect(fs.readFileSync(outPath)).toEqual(before);
+        expect(fs.existsSync(previousSnapshotPath(outPath))).toBe(false);
+      });
+
+      it('keeps the previous version of a page whose new fragment fails to download', async () => {
+        const outPath = tmpParquetPath();
+        tmpFiles.push(previousSnapshotPath(outPath));
+        await writeParquet(
+          [
+            { ...journaledPage('/a/', 'old_a'), content: 'Old a' },
+            { ...journaledPage('/b/', 'old_b'), content: 'Old b' },
+          ],
+          outPath
+        );
+
+        mockPagefind(['hash_a', 'hash_b'], { hash_a: '/a/' });
+        const result = await fetchAllDocs(outPath);
+
+        expect(result.failedUrls).toEqual([`${PAGEFIND_BASE}/fragment/hash_b.pf_fragment`]);
+        expect(result).toMatchObject({
+          keptPages: 1,
+          changes: { added: 0, updated: 1, removed: 0 },
+        });
+        const store = await createDatabase(outPath);
+        const pages = await getAllPageRecords(store);
+        closeDatabase(store);
+        expect(pages.map((p) => [p.url, p.content])).toEqual([
+          ['/a/', 'Content of /a/'],
+          ['/b/', 'Old b'],
+        ]);
+      });
+    });
   });
 });
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import type { PageText } from '../db.ts';
+import {
+  buildGlossary,
+  formatDefinition,
+  lookupTerm,
+  parseTermName,
+  parseTerminology,
+} from '../glossary.ts';
+
+const SUMMARY = `# Palantir Foundry
+
+## Platform Architecture
+
+- **Object types:** Schema definitions for real-world entities or events
+
+## Core Terminology
+
+### Ontology Terms
+
+**Object Type:** The schema definition of a real-world entity or event.
+
+**Incremental pipeline / transform:** A pipeline or transform that processes only changed rows.
+
+**OSDK (Ontology SDK):** Auto-generated SDKs for accessing Ontology data.
+
+## Data Integration
+
+**Pipeline Builder** is Foundry's primary application for data integration.
+`;
+
+const PAGES: PageText[] = [
+  {
+    url: '/foundry/ontology-sdk/overview/',
+    title: 'Ontology SDK overview',
+    content:
+      '# Overview\n\nThe Ontology SDK (OSDK) is a set of generated client libraries. It is fast.',
+  },
+  {
+    url: '/foundry/object-views/overview/',
+    title: 'Object views',
+    content: 'Object views are a central hub for all information about an object.',
+  },
+  {
+    url: '/foundry/misc/',
+    title: 'Miscellaneous',
+    content: 'A widget is a UI component. This page is not about widgets.',
+  },
+];
+
+describe('Glossary', () => {
+  it('splits headings into terms and aliases', () => {
+    expect(parseTermName('OSDK (Ontology SDK)')).toEqual({
+      term: 'OSDK',
+      aliases: ['Ontology SDK'],
+    });
+    expect(parseTermName('Incremental pipeline / transform')).toEqual({
+      term: 'Incremental pipeline',
+      aliases: ['Incremental transform'],
+    });
+  });
+
+  it('only reads the Core Terminology section of the summary', () => {
+    const terms = parseTerminology(SUMMARY).map((e) => e.term);
+
+    expect(terms).toEqual(['Object Type', 'Incremental pipeline', 'OSDK']);
+  });
+
+  it('resolves aliases, plurals and case to the same entry', () => {
+    const glossary = buildGlossary(SUMMARY, []);
+
+    const byAcronym = lookupTerm(glossary, 'OSDK');
+    const byName = lookupTerm(glossary, 'ontology sdk');
+    expect(byAcronym.entry?.term).toBe('OSDK');
+    expect(byName.entry).toBe(byAcronym.entry);
+    expect(lookupTerm(glossary, 'object types').entry?.term).toBe('Object Type');
+    expect(lookupTerm(glossary, 'Incremental transforms').entry?.term).toBe('Incremental pipeline');
+  });
+
+  it('adds definitions mined from pages to known terms and page-title terms', () => {
+    const glossary = buildGlossary(SUMMARY, PAGES);
+
+    const osdk = lookupTerm(glossary, 'OSDK').entry;
+    expect(osdk?.definitions.map((d) => d.source.ref)).toEqual([
+      'data/llm-summary.md',
+      '/foundry/ontology-sdk/overview/',
+    ]);
+
+    const views = lookupTerm(glossary, 'object view').entry;
+    expect(views?.definitions[0].text).toBe(
+      'Object views are a central hub for all information about an object.'
+    );
+
+    // "A widget is ..." on a page about something else is not a definition source.
+    expect(lookupTerm(glossary, 'widget').entry).toBeNull();
+  });
+
+  it('suggests related terms for unknown queries', () => {
+    const glossary = buildGlossary(SUMMARY, []);
+    const result = lookupTerm(glossary, 'object set');
+
+    expect(result.entry).toBeNull();
+    expect(result.entry === null && result.suggestions).toEqual(['Object Type']);
+  });
+
+  it('formats definitions with their sources', () => {
+    const glossary = buildGlossary(SUMMARY, PAGES);
+    const text = formatDefinition(lookupTerm(glossary, 'OSDK').entry!);
+
+    expect(text).toContain('OSDK (also: Ontology SDK)');
+    expect(text).toContain('Source: data/llm-summary.md — Core Terminology');
+    expect(text).toContain('Source: Ontology SDK overview (/foundry/ontology-sdk/overview/)');
+  });
+});
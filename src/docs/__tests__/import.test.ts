@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { writeParquet } from '../write-parquet.ts';
+import type { PageRecord } from '../db.ts';
+import { importDocsBundle, parseChecksum, sha256Hex } from '../import.ts';
+import * as migrateModule from '../migrate.ts';
+import { previousSnapshotPath } from '../snapshots.ts';
+import { KNOWN_PAGE_URL, MIN_ROW_COUNT, validateDocsFile } from '../validate.ts';
+
+function bundlePages(count: number): PageRecord[] {
+  return Array.from({ length: count }, (_, i) => ({
+    url: i === 0 ? KNOWN_PAGE_URL : `/foundry/page-${i}/`,
+    title: `Page ${i}`,
+    content: i === 0 ? 'Recall ranges '.repeat(20) : `Content of page ${i}.`,
+    wordCount: 4,
+    meta: {},
+    fetchedAt: '2026-10-01T00:00:00.000Z',
+  }));
+}
+
+function readFile(filePath: string): ArrayBuffer {
+  const buf = fs.readFileSync(filePath);
+  return buf.buffer.slice(buf.byteOffset, buf.byteOffset + buf.byteLength) as ArrayBuffer;
+}
+
+describe('Docs bundle import', () => {
+  let tmpDir: string;
+  let bundlePath: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'import-test-'));
+    bundlePath = path.join(tmpDir, 'bundle.parquet');
+    dbPath = path.join(tmpDir, 'cache', 'docs.parquet');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('passes a complete bundle', async () => {
+    await writeParquet(bundlePages(MIN_ROW_COUNT), bundlePath);
+
+    const report = await validateDocsFile(readFile(bundlePath));
+
+    expect(report.ok).toBe(true);
+    expect(report.rowCount).toBe(MIN_ROW_COUNT);
+  });
+
+  it('fails small bundles, duplicate URLs and empty content', async () => {
+    const pages = bundlePages(10);
+    pages[2].url = pages[1].url;
+    pages[3].content = '';
+    await writeParquet(pages, bundlePath);
+
+    const report = await validateDocsFile(readFile(bundlePath));
+
+    expect(report.ok).toBe(false);
+    expect(report.duplicateUrls).toBe(1);
+    expect(report.emptyContent).toBe(1);
+    expect(report.checks.filter((c) => !c.pass).map((c) => c.name)).toEqual([
+      `Row count >= ${MIN_ROW_COUNT}`,
+      'No empty content',
+      'No duplicate URLs',
+    ]);
+  });
+
+  it('rejects files that are not Parquet', async () => {
+    fs.writeFileSync(bundlePath, 'not parquet');
+
+    const report = await validateDocsFile(readFile(bundlePath));
+
+    expect(report.checks).toEqual([{ name: 'Readable Parquet file', pass: false }]);
+  });
+
+  it('parses sha256 checksums', () => {
+    const hex = 'ab'.repeat(32);
+    expect(parseChecksum(hex.toUpperCase())).toBe(hex);
+    expect(parseChecksum(`sha256:${hex}`)).toBe(hex);
+    expect(parseChecksum('abc')).toBeNull();
+  });
+
+  it('installs a valid bundle and keeps the replaced database', async () => {
+    await writeParquet(bundlePages(MIN_ROW_COUNT), bundlePath);
+    fs.mkdirSync(path.dirname(dbPath));
+    fs.writeFileSync(dbPath, 'old database');
+
+    const result = await importDocsBundle(bundlePath, dbPath, sha256Hex(readFile(bundlePath)));
+
+    expect(result.ok).toBe(true);
+    expect(fs.readFileSync(dbPath)).toEqual(fs.readFileSync(bundlePath));
+    expect(fs.readFileSync(previousSnapshotPath(dbPath), 'utf8')).toBe('old database');
+  });
+
+  it('verifies the checksum from a .sha256 file next to the bundle', async () => {
+    await writeParquet(bundlePages(MIN_ROW_COUNT), bundlePath);
+    fs.writeFileSync(`${bundlePath}.sha256`, `${'0'.repeat(64)}  bundle.parquet\n`);
+
+    const result = await importDocsBundle(bundlePath, dbPath);
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.error).toContain('Checksum mismatch');
+    expect(fs.existsSync(dbPath)).toBe(false);
+  });
+
+  it('leaves the database untouched when validation fails', async () => {
+    await writeParquet(bundlePages(5), bundlePath);
+
+    const result = await importDocsBundle(bundlePath, dbPath);
+
+    expect(!result.ok && result.error).toContain(`✗ Row count >= ${MIN_ROW_COUNT}`);
+    expect(fs.existsSync(dbPath)).toBe(false);
+  });
+
+  it('leaves the database untouched and reports the error when the upgrade fails', async () => {
+    await writeParquet(bundlePages(MIN_ROW_COUNT), bundlePath);
+    fs.mkdirSync(path.dirname(dbPath));
+    fs.writeFileSync(dbPath, 'old database');
+    const spy = vi
+      .spyOn(migrateModule, 'migrateDocsDatabase')
+      .mockRejectedValue(new Error('No space left on device'));
+
+    const result = await importDocsBundle(bundlePath, dbPath);
+    spy.mockRestore();
+
+    expect(!result.ok && result.error).toBe(
+      `Could not upgrade ${bundlePath} to the current docs schema: No space left on device. The database was left unchanged.`
+    );
+    expect(fs.readFileSync(dbPath, 'utf8')).toBe('old database');
+    expect(fs.readdirSync(path.dirname(dbPath))).toEqual(['docs.parquet']);
+  });
+});
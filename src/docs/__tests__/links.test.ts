@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { writeParquet } from '../write-parquet.ts';
+import { createDatabase, type PageRecord } from '../db.ts';
+import { sidecarPath } from '../sidecar.ts';
+import {
+  buildLinkEdges,
+  buildLinkGraph,
+  formatRelated,
+  loadLinkGraph,
+  readLinkTable,
+} from '../links.ts';
+
+function page(url: string, title: string, content: string): PageRecord {
+  return {
+    url,
+    title,
+    content,
+    wordCount: content.split(/\s+/).length,
+    meta: {},
+    fetchedAt: '2025-01-01T00:00:00.000Z',
+  };
+}
+
+const PAGES: PageRecord[] = [
+  page(
+    '/foundry/ontology/overview/',
+    'Ontology overview',
+    'Objects are described in [object types](/docs/foundry/ontology/object-types/). See Action types for edits. Also https://www.palantir.com/docs/foundry/ontology/overview/ links to itself.'
+  ),
+  page(
+    '/foundry/ontology/object-types/',
+    'Object types',
+    'An object type is backed by a dataset. See also the Ontology overview, and /foundry/unknown/page/ which does not exist.'
+  ),
+  page('/foundry/ontology/action-types/', 'Action types', 'Actions edit objects.'),
+  page('/foundry/a/overview/', 'Overview', 'Ambiguous title.'),
+  page('/foundry/b/overview/', 'Overview', 'See Overview for more.'),
+];
+
+describe('Link graph', () => {
+  let tmpDir: string;
+  let parquetPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'links-test-'));
+    parquetPath = path.join(tmpDir, 'docs.parquet');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('buildLinkEdges', () => {
+    it('resolves markdown links, paths and "see <title>" references to known pages', () => {
+      const edges = buildLinkEdges(PAGES);
+
+      expect(edges).toEqual([
+        {
+          source: '/foundry/ontology/overview/',
+          target: '/foundry/ontology/object-types/',
+          kind: 'url',
+        },
+        {
+          source: '/foundry/ontology/overview/',
+          target: '/foundry/ontology/action-types/',
+          kind: 'title',
+        },
+        {
+          source: '/foundry/ontology/object-types/',
+          target: '/foundry/ontology/overview/',
+          kind: 'title',
+        },
+      ]);
+    });
+  });
+
+  describe('formatRelated', () => {
+    it('lists outgoing links and backlinks with titles', () => {
+      const graph = buildLinkGraph(buildLinkEdges(PAGES));
+      const titles = new Map(PAGES.map((p) => [p.url, p.title]));
+
+      const text = formatRelated(graph, '/foundry/ontology/overview/', 'both', titles);
+      expect(text).toContain('Related pages for Ontology overview (/foundry/ontology/overview/):');
+      expect(text).toContain(
+        'Links to (2):\n- Action types (/foundry/ontology/action-types/) [via "see" reference]\n- Object types (/foundry/ontology/object-types/)'
+      );
+      expect(text).toContain('Linked from (1):\n- Object types (/foundry/ontology/object-types/)');
+
+      const incomingOnly = formatRelated(
+        graph,
+        '/foundry/ontology/action-types/',
+        'incoming',
+        titles
+      );
+      expect(incomingOnly).not.toContain('Links to');
+      expect(incomingOnly).toContain('Linked from (1)');
+    });
+  });
+
+  describe('loadLinkGraph', () => {
+    it('stores the adjacency table next to the database and reuses it while fresh', async () => {
+      await writeParquet(PAGES, parquetPath);
+      const store = await createDatabase(parquetPath);
+      const tablePath = sidecarPath(parquetPath, 'links', 'parquet');
+
+      const graph = await loadLinkGraph(store, parquetPath);
+      expect(graph.outgoing.get('/foundry/ontology/overview/')).toHaveLength(2);
+      expect(fs.existsSync(tablePath)).toBe(true);
+
+      const stat = fs.statSync(parquetPath);
+      const fresh = await readLinkTable(tablePath, { size: stat.size, mtimeMs: stat.mtimeMs });
+      expect(fresh).toHaveLength(3);
+
+      const stale = await readLinkTable(tablePath, { size: stat.size + 1, mtimeMs: stat.mtimeMs });
+      expect(stale).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import type { PageListing } from '../db.ts';
+import { buildDocTree, findTreeNode, formatBrowse, formatDocTree, treePath } from '../hierarchy.ts';
+import { filterPages, formatPageListing } from '../listing.ts';
+
+const PAGES: PageListing[] = [
+  { url: '/foundry/', title: 'Foundry' },
+  { url: '/foundry/ontology/overview/', title: 'Ontology overview' },
+  { url: '/foundry/ontology/object-types/', title: 'Object types' },
+  { url: '/foundry/transforms-python/overview/', title: 'Python transforms' },
+  { url: '/foundry/transforms-python/incremental/', title: 'Incremental transforms' },
+  { url: '/apollo/overview/', title: 'Apollo overview' },
+];
+
+describe('Docs listing', () => {
+  describe('buildDocTree', () => {
+    it('counts pages at or below every path prefix', () => {
+      const root = buildDocTree(PAGES);
+
+      expect(root.pageCount).toBe(6);
+      expect(findTreeNode(root, '/foundry/')?.pageCount).toBe(5);
+      expect(findTreeNode(root, '/foundry/')?.page?.title).toBe('Foundry');
+      expect(findTreeNode(root, '/docs/foundry/transforms-python')?.pageCount).toBe(2);
+      expect(findTreeNode(root, '/foundry/nope/')).toBeNull();
+    });
+
+    it('renders children with titles and collapsed counts', () => {
+      const root = buildDocTree(PAGES);
+
+      expect(formatDocTree(findTreeNode(root, '/foundry/')!, 1)).toBe(
+        ['- ontology/ [2 pages below]', '- transforms-python/ [2 pages below]'].join('\n')
+      );
+      expect(formatDocTree(root, 1)).toBe(
+        ['- apollo/ [1 pages below]', '- foundry/ — Foundry (/foundry/) [4 pages below]'].join('\n')
+      );
+    });
+
+    it('expands nested levels up to depth', () => {
+      const tree = formatDocTree(findTreeNode(buildDocTree(PAGES), '/foundry/')!, 2);
+
+      expect(tree).toContain(
+        '  - incremental/ — Incremental transforms (/foundry/transforms-python/incremental/)'
+      );
+    });
+  });
+
+  describe('filterPages', () => {
+    it('filters by path prefix and case-insensitive title substring', () => {
+      expect(filterPages(PAGES, { pathPrefix: '/docs/foundry/ontology/' })).toHaveLength(2);
+      expect(filterPages(PAGES, { titleContains: 'OVERVIEW' }).map((p) => p.url)).toEqual([
+        '/foundry/ontology/overview/',
+        '/apollo/overview/',
+      ]);
+      expect(
+        filterPages(PAGES, { pathPrefix: '/foundry/', titleContains: 'transforms' })
+      ).toHaveLength(2);
+    });
+  });
+
+  describe('formatPageListing', () => {
+    it('lists every page on one page when nothing is filtered', () => {
+      const text = formatPageListing(PAGES);
+
+      expect(text).toMatch(/^Available Palantir Foundry Documentation \(6 pages\):/);
+      expect(text).toContain('- Apollo overview (/apollo/overview/)');
+      expect(text).not.toContain('Showing');
+    });
+
+    it('paginates and points to the next page', () => {
+      const first = formatPageListing(PAGES, { pageSize: 4 });
+      expect(first).toContain('(6 pages)');
+      expect(first).toContain('Showing 1-4 (page 1 of 2). Call list_all_docs with page=2');
+
+      const second = formatPageListing(PAGES, { pageSize: 4, page: 2 });
+      expect(second).toContain('- Apollo overview (/apollo/overview/)');
+      expect(second).toContain('Showing 5-6 (page 2 of 2).');
+      expect(second).not.toContain('page=3');
+    });
+
+    it('describes active filters in the header', () => {
+      expect(formatPageListing(PAGES, { pathPrefix: '/apollo/' })).toMatch(
+        /^Available Palantir Foundry Documentation under \/apollo\/ \(1 pages\):/
+      );
+    });
+
+    it('renders a tree rooted at pathPrefix', () => {
+      const text = formatPageListing(PAGES, { format: 'tree', pathPrefix: '/foundry/' });
+
+      expect(text).toContain('Palantir Foundry Documentation tree under /foundry/ (5 pages):');
+      expect(text).toContain('/foundry/\n- ontology/ [2 pages below]');
+    });
+
+    it('says so when a tree prefix has nothing below it', () => {
+      const text = formatPageListing(PAGES, { format: 'tree', pathPrefix: '/apollo/overview/' });
+
+      expect(text).toContain('(no sections below /apollo/overview/)');
+    });
+  });
+});
+
+describe('Docs navigation', () => {
+  const root = buildDocTree(PAGES);
+
+  it('shows breadcrumb, parent, children and siblings of a page', () => {
+    const text = formatBrowse(root, treePath(root, '/foundry/transforms-python/overview/')!);
+
+    expect(text).toContain('Location: Python transforms (/foundry/transforms-python/overview/)');
+    expect(text).toContain('Breadcrumb: Foundry › transforms-python/ › Python transforms');
+    expect(text).toContain(
+      'Parent: /foundry/transforms-python/ (section, no page) [2 pages below]'
+    );
+    expect(text).toContain('Children: none');
+    expect(text).toContain(
+      'Siblings (1):\n- Incremental transforms (/foundry/transforms-python/incremental/)'
+    );
+  });
+
+  it('lists sections under a page that has children', () => {
+    const text = formatBrowse(root, treePath(root, '/docs/foundry/')!);
+
+    expect(text).toContain('Location: Foundry (/foundry/) [4 pages below]');
+    expect(text).toContain('Parent: / (docs root)');
+    expect(text).toContain(
+      'Children (2):\n- /foundry/ontology/ (section, no page) [2 pages below]\n- /foundry/transforms-python/ (section, no page) [2 pages below]'
+    );
+    expect(text).toContain('Siblings (1):\n- /apollo/ (section, no page) [1 pages below]');
+  });
+
+  it('shows top-level sections at the root', () => {
+    const text = formatBrowse(root, treePath(root, '/')!);
+
+    expect(text).toContain('Parent: none');
+    expect(text).toContain('Children (2):');
+    expect(text).not.toContain('Siblings');
+  });
+
+  it('returns null for paths outside the tree', () => {
+    expect(treePath(root, '/foundry/missing/')).toBeNull();
+  });
+});
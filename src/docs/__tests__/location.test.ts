@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { displayPath, legacyDocsPath, resolveDocsLocation, sharedCacheDir } from '../location.ts';
+import { acquireDocsLock, lockPath } from '../lock.ts';
+
+describe('Docs location', () => {
+  let tmpDir: string;
+  const originalCacheHome = process.env.XDG_CACHE_HOME;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'location-test-'));
+    process.env.XDG_CACHE_HOME = path.join(tmpDir, 'cache');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    if (originalCacheHome === undefined) delete process.env.XDG_CACHE_HOME;
+    else process.env.XDG_CACHE_HOME = originalCacheHome;
+  });
+
+  it('uses XDG_CACHE_HOME, falling back to ~/.cache', () => {
+    expect(sharedCacheDir({ XDG_CACHE_HOME: '/var/cache/me' })).toBe(
+      '/var/cache/me/opencode-palantir'
+    );
+    expect(sharedCacheDir({ XDG_CACHE_HOME: 'relative' })).toBe(
+      path.join(os.homedir(), '.cache', 'opencode-palantir')
+    );
+  });
+
+  it('shows paths relative to the worktree, under ~/ or absolute', () => {
+    const home = '/home/me';
+    const worktree = '/home/me/src/app';
+    expect(displayPath('/home/me/src/app/data/docs-2026-10-19.parquet', worktree, home)).toBe(
+      'data/docs-2026-10-19.parquet'
+    );
+    expect(
+      displayPath('/home/me/.cache/opencode-palantir/docs-2026-10-19.parquet', worktree, home)
+    ).toBe('~/.cache/opencode-palantir/docs-2026-10-19.parquet');
+    expect(displayPath('/var/cache/docs.parquet', worktree, home)).toBe('/var/cache/docs.parquet');
+  });
+
+  it('prefers the configured path, then a legacy data/docs.parquet, then the shared cache', async () => {
+    expect(await resolveDocsLocation(tmpDir, null)).toEqual({
+      path: path.join(tmpDir, 'cache', 'opencode-palantir', 'docs.parquet'),
+      source: 'shared',
+    });
+
+    fs.mkdirSync(path.join(tmpDir, 'data'));
+    fs.writeFileSync(legacyDocsPath(tmpDir), '');
+    expect((await resolveDocsLocation(tmpDir, null)).source).toBe('legacy');
+
+    expect(await resolveDocsLocation(tmpDir, 'docs/foundry.parquet')).toEqual({
+      path: path.join(tmpDir, 'docs', 'foundry.parquet'),
+      source: 'config',
+    });
+  });
+});
+
+describe('Docs lock', () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'lock-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('is exclusive until released', async () => {
+    const dbPath = path.join(tmpDir, 'cache', 'docs.parquet');
+
+    const first = await acquireDocsLock(dbPath);
+    expect(first.ok).toBe(true);
+    const second = await acquireDocsLock(dbPath);
+    expect(second).toEqual({
+      ok: false,
+      owner: { pid: process.pid, acquiredAt: expect.any(String) },
+    });
+
+    if (first.ok) await first.release();
+    expect(fs.existsSync(lockPath(dbPath))).toBe(false);
+    expect((await acquireDocsLock(dbPath)).ok).toBe(true);
+  });
+
+  it('takes over a lock left by a process that is gone', async () => {
+    const dbPath = path.join(tmpDir, 'docs.parquet');
+    // Far above any real pid, so the owner is reported as not running.
+    const stale = { pid: 2 ** 22 + 17, acquiredAt: new Date().toISOString() };
+    fs.writeFileSync(lockPath(dbPath), JSON.stringify(stale));
+
+    const lock = await acquireDocsLock(dbPath);
+
+    expect(lock.ok).toBe(true);
+    expect(JSON.parse(fs.readFileSync(lockPath(dbPath), 'utf8')).pid).toBe(process.pid);
+    expect(fs.readdirSync(tmpDir)).toEqual(['docs.parquet.lock']);
+  });
+
+  it('lets only one of several sessions take over the same stale lock', async () => {
+    const dbPath = path.join(tmpDir, 'docs.parquet');
+    const stale = { pid: 2 ** 22 + 17, acquiredAt: new Date().toISOString() };
+
+    for (let round = 0; round < 20; round++) {
+      fs.writeFileSync(lockPath(dbPath), JSON.stringify(stale));
+      const locks = await Promise.all(Array.from({ length: 5 }, () => acquireDocsLock(dbPath)));
+
+      expect(locks.filter((lock) => lock.ok)).toHaveLength(1);
+      expect(fs.readdirSync(tmpDir)).toEqual(['docs.parquet.lock']);
+      fs.rmSync(lockPath(dbPath));
+    }
+  });
+
+  it('does not take over an old lock whose process is still running', async () => {
+    const dbPath = path.join(tmpDir, 'docs.parquet');
+    const running = { pid: process.pid, acquiredAt: '2026-01-01T00:00:00.000Z' };
+    fs.writeFileSync(lockPath(dbPath), JSON.stringify(running));
+
+    expect(await acquireDocsLock(dbPath)).toEqual({ ok: false, owner: running });
+  });
+
+  it('leaves a lock alone on release once another session has taken it over', async () => {
+    const dbPath = path.join(tmpDir, 'docs.parquet');
+    const lock = await acquireDocsLock(dbPath);
+    const next = { pid: process.pid, acquiredAt: '2026-09-01T00:00:00.000Z', token: 'next' };
+    fs.writeFileSync(lockPath(dbPath), JSON.stringify(next));
+
+    if (lock.ok) await lock.release();
+
+    expect(JSON.parse(fs.readFileSync(lockPath(dbPath), 'utf8'))).toEqual(next);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import { createDatabase, getPage, toPageRecord, closeDatabase } from '../db.ts';
+import { migrateDocsDatabase, needsMigration } from '../migrate.ts';
+import { DOCS_SCHEMA_VERSION, SCHEMA_VERSION_KEY } from '../schema.ts';
+import { readDocsStatus } from '../status.ts';
+import { REFRESH_STATS_KEYS } from '../write-parquet.ts';
+
+type KeyValue = { key: string; value: string };
+
+/** A database as the first plugin versions wrote it: fetch order, uncompressed, no version. */
+function legacyBuffer(kvMetadata: KeyValue[] = [], withMeta = true): ArrayBuffer {
+  const columns = [
+    { name: 'url', data: ['/z/', '/a/'], type: 'STRING' as const },
+    { name: 'title', data: ['Z', 'A'], type: 'STRING' as const },
+    { name: 'content', data: ['Last page.', 'First page.'], type: 'STRING' as const },
+    { name: 'word_count', data: [2, 2], type: 'INT32' as const },
+    { name: 'meta', data: [{ filters: { product: ['Foundry'] } }, {}], type: 'JSON' as const },
+    { name: 'fetched_at', data: ['t1', 't2'], type: 'STRING' as const },
+  ];
+  return parquetWriteBuffer({
+    columnData: withMeta ? columns : columns.filter((c) => c.name !== 'meta'),
+    codec: 'UNCOMPRESSED',
+    kvMetadata,
+  });
+}
+
+describe('Docs schema migration', () => {
+  let tmpDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'migrate-test-'));
+    dbPath = path.join(tmpDir, 'docs.parquet');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function write(buffer: ArrayBuffer): void {
+    fs.writeFileSync(dbPath, new Uint8Array(buffer));
+  }
+
+  it('upgrades an unversioned database in place, keeping rows and refresh stats', async () => {
+    write(
+      legacyBuffer([
+        { key: REFRESH_STATS_KEYS.fetchedAt, value: '2026-09-01T00:00:00.000Z' },
+        { key: REFRESH_STATS_KEYS.totalPages, value: '3' },
+        { key: REFRESH_STATS_KEYS.failedPages, value: '1' },
+      ])
+    );
+    expect(await needsMigration(dbPath)).toBe(true);
+
+    expect(await migrateDocsDatabase(dbPath)).toEqual({
+      migrated: true,
+      from: 0,
+      to: DOCS_SCHEMA_VERSION,
+    });
+    expect(await needsMigration(dbPath)).toBe(false);
+
+    const store = await createDatabase(dbPath);
+    expect(store.index.map((p) => p.url)).toEqual(['/a/', '/z/']);
+    expect((await getPage(store, '/z/'))?.meta).toEqual({ filters: { product: ['Foundry'] } });
+    expect(await readDocsStatus(store)).toMatchObject({ totalPages: 3, failedPages: 1 });
+    closeDatabase(store);
+
+    expect(await migrateDocsDatabase(dbPath)).toEqual({
+      migrated: false,
+      version: DOCS_SCHEMA_VERSION,
+    });
+  });
+
+  it('refuses databases from a newer plugin with a clear error', async () => {
+    write(legacyBuffer([{ key: SCHEMA_VERSION_KEY, value: String(DOCS_SCHEMA_VERSION + 1) }]));
+
+    expect(await needsMigration(dbPath)).toBe(false);
+    expect(await migrateDocsDatabase(dbPath)).toEqual({
+      migrated: false,
+      version: DOCS_SCHEMA_VERSION + 1,
+    });
+    await expect(createDatabase(dbPath)).rejects.toThrow(
+      `uses schema version ${DOCS_SCHEMA_VERSION + 1}, but this plugin reads up to version ${DOCS_SCHEMA_VERSION}`
+    );
+  });
+
+  it('reports unrecognized versions and missing columns', async () => {
+    write(legacyBuffer([{ key: SCHEMA_VERSION_KEY, value: 'two' }]));
+    await expect(createDatabase(dbPath)).rejects.toThrow('Unrecognized docs schema version "two"');
+
+    write(legacyBuffer([], false));
+    await expect(createDatabase(dbPath)).rejects.toThrow(
+      'The docs database is missing columns: meta.'
+    );
+    expect(await migrateDocsDatabase(dbPath)).toEqual({ migrated: false, version: 0 });
+  });
+
+  it('decodes rows with missing word counts or malformed meta', () => {
+    expect(
+      toPageRecord({ url: '/a/', title: 'A', content: 'one two three', meta: '{not json' })
+    ).toEqual({
+      url: '/a/',
+      title: 'A',
+      content: 'one two three',
+      wordCount: 3,
+      meta: {},
+      fetchedAt: '',
+    });
+    expect(toPageRecord({ url: '/b/', word_count: 7n, meta: '["x"]' })).toMatchObject({
+      content: '',
+      wordCount: 7,
+      meta: {},
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { writeParquet } from '../write-parquet.ts';
+import { createDatabase, type PageRecord, type ParquetStore } from '../db.ts';
+import {
+  formatNotFound,
+  matchesPathPrefix,
+  normalizeDocUrl,
+  resolvePageUrl,
+  scoreUrlMatch,
+  suggestUrls,
+} from '../resolve.ts';
+
+function page(url: string, title: string): PageRecord {
+  return {
+    url,
+    title,
+    content: `${title} content.`,
+    wordCount: 2,
+    meta: {},
+    fetchedAt: '2025-01-01T00:00:00.000Z',
+  };
+}
+
+describe('URL resolution', () => {
+  describe('normalizeDocUrl', () => {
+    it.each([
+      ['/foundry/ontology/overview/', '/foundry/ontology/overview/'],
+      ['/docs/foundry/ontology/overview/', '/foundry/ontology/overview/'],
+      ['https://www.palantir.com/docs/foundry/ontology/overview', '/foundry/ontology/overview/'],
+      ['palantir.com/docs/Foundry/Ontology/Overview/', '/foundry/ontology/overview/'],
+      ['foundry//ontology/overview/#object-types', '/foundry/ontology/overview/'],
+      ['/foundry/ontology/overview?tab=1', '/foundry/ontology/overview/'],
+      ['  /docs  ', '/'],
+    ])('normalizes %s', (raw, expected) => {
+      expect(normalizeDocUrl(raw)).toBe(expected);
+    });
+
+    it('keeps paths that merely start with "docs"', () => {
+      expect(normalizeDocUrl('/docsy/page/')).toBe('/docsy/page/');
+    });
+  });
+
+  describe('matchesPathPrefix', () => {
+    it('compares normalized forms and allows partial final segments', () => {
+      expect(matchesPathPrefix('/foundry/transforms-python/x/', '/docs/foundry/')).toBe(true);
+      expect(matchesPathPrefix('/foundry/transforms-python/x/', '/foundry/trans')).toBe(true);
+      expect(matchesPathPrefix('/foundry/transforms-python/x/', '/foundry/trans/')).toBe(false);
+      expect(matchesPathPrefix('/apollo/x/', '/foundry')).toBe(false);
+    });
+  });
+
+  describe('scoreUrlMatch', () => {
+    it('scores a near-miss higher than an unrelated page', () => {
+      const near = scoreUrlMatch(
+        '/foundry/ontology/overveiw/',
+        '/foundry/ontology/overview/',
+        'Ontology overview'
+      );
+      const far = scoreUrlMatch('/foundry/ontology/overveiw/', '/apollo/releases/', 'Releases');
+
+      expect(near).toBeGreaterThan(0.5);
+      expect(far).toBeLessThan(0.25);
+    });
+  });
+
+  describe('resolvePageUrl', () => {
+    let tmpDir: string;
+    let store: ParquetStore;
+
+    beforeEach(async () => {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'resolve-test-'));
+      const parquetPath = path.join(tmpDir, 'docs.parquet');
+      await writeParquet(
+        [
+          page('/foundry/ontology/overview/', 'Ontology overview'),
+          page('/foundry/ontology/object-types/', 'Object types'),
+          page('/foundry/transforms-python/incremental/', 'Incremental transforms'),
+          page('/apollo/releases/', 'Releases'),
+        ],
+        parquetPath
+      );
+      store = await createDatabase(parquetPath);
+    });
+
+    afterEach(() => {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    it('returns exact and normalized matches', () => {
+      expect(resolvePageUrl(store, '/foundry/ontology/overview/')).toEqual({
+        url: '/foundry/ontology/overview/',
+      });
+      expect(
+        resolvePageUrl(store, 'https://www.palantir.com/docs/foundry/Ontology/overview')
+      ).toEqual({ url: '/foundry/ontology/overview/' });
+    });
+
+    it('suggests the closest pages when nothing matches', () => {
+      const result = resolvePageUrl(store, '/docs/foundry/ontology/objecttypes/');
+
+      expect(result.url).toBeNull();
+      if (result.url !== null) return;
+      expect(result.suggestions[0].url).toBe('/foundry/ontology/object-types/');
+      expect(result.suggestions.map((s) => s.url)).not.toContain('/apollo/releases/');
+    });
+
+    it('uses title words to find pages at unexpected paths', () => {
+      const suggestions = suggestUrls(store, '/foundry/incremental-transforms/');
+
+      expect(suggestions[0].url).toBe('/foundry/transforms-python/incremental/');
+    });
+  });
+
+  describe('formatNotFound', () => {
+    it('lists suggestions when there are any', () => {
+      expect(formatNotFound('/x/', [])).toBe('Page not found: /x/');
+      expect(formatNotFound('/x/', [{ url: '/y/', title: 'Y', score: 0.5 }])).toBe(
+        'Page not found: /x/\n\nDid you mean:\n- Y (/y/)'
+      );
+    });
+  });
+});
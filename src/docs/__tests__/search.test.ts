@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { writeParquet } from '../write-parquet.ts';
+import { createDatabase, type PageRecord } from '../db.ts';
+import { sidecarPath } from '../sidecar.ts';
+import { buildSearchIndex, highlightSnippet, loadSearchIndex, searchIndex } from '../search.ts';
+import { tokenize } from '../tokenize.ts';
+
+function page(url: string, title: string, content: string): PageRecord {
+  return {
+    url,
+    title,
+    content,
+    wordCount: content.split(/\s+/).length,
+    meta: {},
+    fetchedAt: '2025-01-01T00:00:00.000Z',
+  };
+}
+
+const PAGES: PageRecord[] = [
+  page(
+    '/foundry/transforms-python/incremental/',
+    'Incremental transforms',
+    'Incremental transforms process only new rows since the last build. Use the incremental decorator in Python transforms.'
+  ),
+  page(
+    '/foundry/ontology/overview/',
+    'Ontology overview',
+    'The Ontology maps datasets to objects, properties and links.'
+  ),
+  page(
+    '/foundry/pipeline-builder/overview/',
+    'Pipeline Builder',
+    'Pipeline Builder is a point-and-click tool. It can also build incremental pipelines.'
+  ),
+  page(
+    '/apollo/overview/',
+    'Apollo overview',
+    'Apollo handles continuous delivery of transforms and other software.'
+  ),
+];
+
+describe('Search index', () => {
+  let tmpDir: string;
+  let parquetPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'search-test-'));
+    parquetPath = path.join(tmpDir, 'docs.parquet');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('tokenize', () => {
+    it('lowercases, drops stop words and folds simple plurals', () => {
+      expect(tokenize('The Incremental Transforms of @transform_df')).toEqual([
+        'incremental',
+        'transform',
+        'transform_df',
+      ]);
+    });
+  });
+
+  describe('searchIndex', () => {
+    it('ranks pages whose title matches above body-only matches', () => {
+      const index = buildSearchIndex(PAGES);
+      const hits = searchIndex(index, 'incremental transforms');
+
+      expect(hits[0].url).toBe('/foundry/transforms-python/incremental/');
+      expect(hits.map((h) => h.url)).toContain('/foundry/pipeline-builder/overview/');
+      expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    });
+
+    it('respects limit and pathPrefix', () => {
+      const index = buildSearchIndex(PAGES);
+
+      expect(searchIndex(index, 'transforms', { limit: 1 })).toHaveLength(1);
+
+      const scoped = searchIndex(index, 'transforms', { pathPrefix: '/apollo/' });
+      expect(scoped.map((h) => h.url)).toEqual(['/apollo/overview/']);
+    });
+
+    it('returns no hits for stop-word-only or unknown queries', () => {
+      const index = buildSearchIndex(PAGES);
+
+      expect(searchIndex(index, 'the of and')).toEqual([]);
+      expect(searchIndex(index, 'kubernetes')).toEqual([]);
+    });
+  });
+
+  describe('highlightSnippet', () => {
+    it('bolds matched words in the densest window', () => {
+      const snippet = highlightSnippet(PAGES[0].content, 'incremental decorator');
+
+      expect(snippet).toContain('**incremental** **decorator**');
+    });
+
+    it('falls back to the start of the page when nothing matches', () => {
+      const snippet = highlightSnippet('x'.repeat(500), 'ontology', 20);
+
+      expect(snippet).toBe(`${'x'.repeat(20)}…`);
+    });
+  });
+
+  describe('loadSearchIndex', () => {
+    it('caches the index next to the database and reuses it', async () => {
+      await writeParquet(PAGES, parquetPath);
+      const store = await createDatabase(parquetPath);
+      const cachePath = sidecarPath(parquetPath, 'search');
+
+      const first = await loadSearchIndex(store, parquetPath);
+      expect(fs.existsSync(cachePath)).toBe(true);
+
+      const cachedMtime = fs.statSync(cachePath).mtimeMs;
+      const second = await loadSearchIndex(store, parquetPath);
+
+      expect(fs.statSync(cachePath).mtimeMs).toBe(cachedMtime);
+      expect(second.docs).toEqual(first.docs);
+      expect(searchIndex(second, 'ontology')[0].url).toBe('/foundry/ontology/overview/');
+    });
+
+    it('rebuilds the cache when the database changes', async () => {
+      await writeParquet(PAGES, parquetPath);
+      await loadSearchIndex(await createDatabase(parquetPath), parquetPath);
+
+      await writeParquet([page('/foundry/new/', 'Brand new', 'Quiver analysis')], parquetPath);
+      const index = await loadSearchIndex(await createDatabase(parquetPath), parquetPath);
+
+      expect(index.docs).toHaveLength(1);
+      expect(searchIndex(index, 'quiver')[0].url).toBe('/foundry/new/');
+    });
+
+    it('stamps the cache with the database the store opened, not the file now at the path', async () => {
+      await writeParquet(PAGES, parquetPath);
+      const stale = await createDatabase(parquetPath);
+      await writeParquet([page('/foundry/new/', 'Brand new', 'Quiver analysis')], parquetPath);
+
+      // A session still reading the replaced file must not label its index as the new file's.
+      expect((await loadSearchIndex(stale, parquetPath)).docs).toHaveLength(PAGES.length);
+      const index = await loadSearchIndex(await createDatabase(parquetPath), parquetPath);
+      expect(index.docs).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import type { PageRecord } from '../db.ts';
+import {
+  findSection,
+  formatOutline,
+  formatSection,
+  getPageSections,
+  readAnchors,
+  splitSections,
+} from '../sections.ts';
+
+const CONTENT =
+  'Transforms overview intro text. Incremental transforms Only new rows are read. Example usage Call the decorator. Lightweight transforms Run on a single node.';
+
+// Word indexes: "Incremental"=4, "Example"=11, "Lightweight"=16
+const ANCHORS = [
+  { element: 'h2', id: 'incremental-transforms', text: 'Incremental transforms', location: 4 },
+  { element: 'h3', id: 'example-usage', text: 'Example usage', location: 11 },
+  { element: 'h2', id: 'lightweight-transforms', text: 'Lightweight transforms', location: 16 },
+];
+
+function makePage(meta: Record<string, unknown>): PageRecord {
+  return {
+    url: '/foundry/transforms/overview/',
+    title: 'Transforms',
+    content: CONTENT,
+    wordCount: 24,
+    meta,
+    fetchedAt: '2025-01-01T00:00:00.000Z',
+  };
+}
+
+describe('Page sections', () => {
+  describe('readAnchors', () => {
+    it('keeps well-formed anchors sorted by location and drops malformed ones', () => {
+      const anchors = readAnchors({
+        anchors: [ANCHORS[2], { id: 'no-location' }, 'junk', ANCHORS[0]],
+      });
+
+      expect(anchors.map((a) => a.id)).toEqual([
+        'incremental-transforms',
+        'lightweight-transforms',
+      ]);
+    });
+
+    it('returns an empty list when meta has no anchors', () => {
+      expect(readAnchors({})).toEqual([]);
+    });
+  });
+
+  describe('splitSections', () => {
+    it('maps word locations to character offsets and nests lower-level headings', () => {
+      const sections = splitSections(CONTENT, readAnchors({ anchors: ANCHORS }));
+
+      const [incremental, example, lightweight] = sections;
+      expect(CONTENT.slice(incremental.start, incremental.end).trim()).toBe(
+        'Incremental transforms Only new rows are read. Example usage Call the decorator.'
+      );
+      expect(CONTENT.slice(example.start, example.end).trim()).toBe(
+        'Example usage Call the decorator.'
+      );
+      expect(CONTENT.slice(lightweight.start, lightweight.end)).toBe(
+        'Lightweight transforms Run on a single node.'
+      );
+    });
+  });
+
+  describe('findSection', () => {
+    const sections = splitSections(CONTENT, readAnchors({ anchors: ANCHORS }));
+
+    it('finds by anchor id with or without a leading #', () => {
+      expect(findSection(sections, { anchor: 'example-usage' })?.heading).toBe('Example usage');
+      expect(findSection(sections, { anchor: '#example-usage' })?.heading).toBe('Example usage');
+    });
+
+    it('finds by heading, preferring exact matches over substrings', () => {
+      expect(findSection(sections, { heading: 'lightweight transforms' })?.id).toBe(
+        'lightweight-transforms'
+      );
+      expect(findSection(sections, { heading: 'incremental' })?.id).toBe('incremental-transforms');
+    });
+
+    it('returns null when nothing matches', () => {
+      expect(findSection(sections, { anchor: 'missing' })).toBeNull();
+      expect(findSection(sections, {})).toBeNull();
+    });
+  });
+
+  describe('formatting', () => {
+    it('renders an indented outline with anchor ids and word counts', () => {
+      const page = makePage({ anchors: ANCHORS });
+      const outline = formatOutline(page, getPageSections(page));
+
+      expect(outline).toContain('Outline of Transforms (/foundry/transforms/overview/):');
+      expect(outline).toContain('- Incremental transforms (#incremental-transforms, 12 words)');
+      expect(outline).toContain('  - Example usage (#example-usage, 5 words)');
+    });
+
+    it('points to get_doc_page when a page has no anchors', () => {
+      const page = makePage({});
+
+      expect(formatOutline(page, getPageSections(page))).toContain('has no section anchors');
+    });
+
+    it('renders a section with a breadcrumb header', () => {
+      const page = makePage({ anchors: ANCHORS });
+      const section = findSection(getPageSections(page), { anchor: 'example-usage' })!;
+
+      expect(formatSection(page, section)).toBe(
+        'Transforms › Example usage (/foundry/transforms/overview/#example-usage)\n\nExample usage Call the decorator.'
+      );
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { writeParquet } from '../write-parquet.ts';
+import { closeDatabase, createDatabase, type PageRecord } from '../db.ts';
+import { buildSearchIndex } from '../search.ts';
+import { sidecarPath } from '../sidecar.ts';
+import {
+  buildSimilarityIndex,
+  findSimilar,
+  formatSimilar,
+  loadSimilarityIndex,
+} from '../similarity.ts';
+
+function page(url: string, title: string, content: string): PageRecord {
+  return {
+    url,
+    title,
+    content,
+    wordCount: content.split(/\s+/).length,
+    meta: {},
+    fetchedAt: '2025-01-01T00:00:00.000Z',
+  };
+}
+
+const PAGES: PageRecord[] = [
+  page(
+    '/foundry/transforms-python/incremental/',
+    'Incremental transforms',
+    'Incremental transforms process only new rows since the last build of the dataset.'
+  ),
+  page(
+    '/foundry/pipeline-builder/incremental/',
+    'Incremental pipelines',
+    'Pipeline Builder can build incremental pipelines that process only new rows.'
+  ),
+  page(
+    '/foundry/ontology/overview/',
+    'Ontology overview',
+    'The Ontology maps datasets to objects, properties and links.'
+  ),
+  page(
+    '/foundry/workshop/overview/',
+    'Workshop',
+    'Workshop apps display ontology objects and their properties.'
+  ),
+  page('/apollo/overview/', 'Apollo', 'Apollo ships software to environments.'),
+];
+
+describe('Similarity index', () => {
+  let tmpDir: string;
+  let parquetPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'similarity-test-'));
+    parquetPath = path.join(tmpDir, 'docs.parquet');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('builds unit-length vectors without single-page terms', () => {
+    const index = buildSimilarityIndex(buildSearchIndex(PAGES));
+
+    expect(index.vocabulary).toContain('incremental');
+    expect(index.vocabulary).not.toContain('apollo');
+    for (const vector of index.vectors) {
+      if (vector.weights.length === 0) continue;
+      const norm = Math.sqrt(vector.weights.reduce((sum, w) => sum + w * w, 0));
+      expect(norm).toBeCloseTo(1);
+    }
+  });
+
+  it('ranks pages sharing distinctive terms first and reports the shared terms', () => {
+    const index = buildSimilarityIndex(buildSearchIndex(PAGES));
+    const hits = findSimilar(index, '/foundry/transforms-python/incremental/');
+
+    expect(hits[0].url).toBe('/foundry/pipeline-builder/incremental/');
+    expect(hits[0].sharedTerms).toContain('incremental');
+    expect(hits.map((h) => h.url)).not.toContain('/foundry/transforms-python/incremental/');
+    expect(hits.map((h) => h.url)).not.toContain('/apollo/overview/');
+  });
+
+  it('respects limit and pathPrefix', () => {
+    const index = buildSimilarityIndex(buildSearchIndex(PAGES));
+
+    expect(findSimilar(index, '/foundry/ontology/overview/', { limit: 1 })).toHaveLength(1);
+    const scoped = findSimilar(index, '/foundry/ontology/overview/', {
+      pathPrefix: '/foundry/workshop/',
+    });
+    expect(scoped.map((h) => h.url)).toEqual(['/foundry/workshop/overview/']);
+  });
+
+  it('formats an explicit message when nothing is similar', () => {
+    const index = buildSimilarityIndex(buildSearchIndex(PAGES));
+    const hits = findSimilar(index, '/apollo/overview/');
+
+    expect(formatSimilar('Apollo', '/apollo/overview/', hits)).toBe(
+      'No pages similar to Apollo (/apollo/overview/) were found.'
+    );
+  });
+
+  it('caches vectors next to the database and reuses them', async () => {
+    await writeParquet(PAGES, parquetPath);
+    const search = buildSearchIndex(PAGES);
+    const cachePath = sidecarPath(parquetPath, 'similar');
+
+    const store = await createDatabase(parquetPath);
+
+    const first = await loadSimilarityIndex(search, store, parquetPath);
+    expect(fs.existsSync(cachePath)).toBe(true);
+    const cachedMtime = fs.statSync(cachePath).mtimeMs;
+
+    const second = await loadSimilarityIndex(search, store, parquetPath);
+    expect(fs.statSync(cachePath).mtimeMs).toBe(cachedMtime);
+    expect(second).toEqual(first);
+    closeDatabase(store);
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import {
+  datedSnapshotPath,
+  listSnapshots,
+  parseAsOf,
+  selectSnapshot,
+  writeDatedSnapshot,
+} from '../snapshots.ts';
+
+describe('Docs snapshots', () => {
+  let tmpDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshots-test-'));
+    dbPath = path.join(tmpDir, 'docs.parquet');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('names snapshots after the database and the refresh date', () => {
+    expect(datedSnapshotPath('/repo/data/docs.parquet', '2026-10-01')).toBe(
+      '/repo/data/docs-2026-10-01.parquet'
+    );
+  });
+
+  it('lists dated snapshots oldest first, ignoring other files', async () => {
+    for (const name of [
+      'docs.parquet',
+      'docs.previous.parquet',
+      'docs-2026-10-01.parquet',
+      'docs-2026-09-01.parquet',
+      'docs-2026-09-01.search.cbor',
+      'docs-latest.parquet',
+    ]) {
+      fs.writeFileSync(path.join(tmpDir, name), '');
+    }
+
+    expect((await listSnapshots(dbPath)).map((s) => s.date)).toEqual(['2026-09-01', '2026-10-01']);
+  });
+
+  it('keeps only the newest snapshots and removes their caches', async () => {
+    fs.writeFileSync(dbPath, 'current');
+    for (const date of ['2026-08-01', '2026-09-01']) {
+      fs.writeFileSync(datedSnapshotPath(dbPath, date), date);
+    }
+    fs.writeFileSync(path.join(tmpDir, 'docs-2026-08-01.search.cbor'), '');
+
+    const written = await writeDatedSnapshot(dbPath, '2026-10-01', 2);
+
+    expect(fs.readFileSync(written, 'utf8')).toBe('current');
+    expect(fs.readdirSync(tmpDir).sort()).toEqual([
+      'docs-2026-09-01.parquet',
+      'docs-2026-10-01.parquet',
+      'docs.parquet',
+    ]);
+  });
+
+  it('parses asOf dates and timestamps', () => {
+    expect(parseAsOf('2026-10-01')).toBe('2026-10-01');
+    expect(parseAsOf('2026-10-01T23:00:00-02:00')).toBe('2026-10-02');
+    expect(parseAsOf('2026-02-30')).toBeNull();
+    expect(parseAsOf('last week')).toBeNull();
+  });
+
+  it('selects the newest snapshot at or before the date', () => {
+    const snapshots = ['2026-08-01', '2026-09-01', '2026-10-01'].map((date) => ({
+      date,
+      path: datedSnapshotPath(dbPath, date),
+    }));
+
+    expect(selectSnapshot(snapshots, '2026-09-15')?.date).toBe('2026-09-01');
+    expect(selectSnapshot(snapshots, '2026-10-01')?.date).toBe('2026-10-01');
+    expect(selectSnapshot(snapshots, '2026-07-31')).toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'node:fs';
+import path from 'node:path';
+import os from 'node:os';
+import { writeParquet } from '../write-parquet.ts';
+import { createDatabase, type PageRecord } from '../db.ts';
+import { docsAgeDays, formatDocsStatus, readDocsStatus, staleWarning } from '../status.ts';
+
+const PAGES: PageRecord[] = [
+  {
+    url: '/a/',
+    title: 'A',
+    content: 'Alpha.',
+    wordCount: 1,
+    meta: {},
+    fetchedAt: '2026-09-01T10:00:00.000Z',
+  },
+  {
+    url: '/b/',
+    title: 'B',
+    content: 'Beta.',
+    wordCount: 1,
+    meta: {},
+    fetchedAt: '2026-09-01T10:02:00.000Z',
+  },
+];
+
+describe('Docs status', () => {
+  let tmpDir: string;
+  let dbPath: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'status-test-'));
+    dbPath = path.join(tmpDir, 'docs.parquet');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('reads refresh stats from the Parquet metadata', async () => {
+    await writeParquet(PAGES, dbPath, {
+      stats: { fetchedAt: '2026-09-01T09:58:00.000Z', totalPages: 3, failedPages: 1 },
+    });
+
+    expect(await readDocsStatus(await createDatabase(dbPath))).toEqual({
+      fetchedAt: '2026-09-01T09:58:00.000Z',
+      pageCount: 2,
+      totalPages: 3,
+      failedPages: 1,
+    });
+  });
+
+  it('falls back to the newest fetched_at for databases without stats', async () => {
+    await writeParquet(PAGES, dbPath);
+
+    expect(await readDocsStatus(await createDatabase(dbPath))).toEqual({
+      fetchedAt: '2026-09-01T10:02:00.000Z',
+      pageCount: 2,
+      totalPages: null,
+      failedPages: null,
+    });
+  });
+
+  it('warns once the docs are older than the threshold', () => {
+    const status = {
+      fetchedAt: '2026-09-01T00:00:00.000Z',
+      pageCount: 2,
+      totalPages: 2,
+      failedPages: 0,
+    };
+    const now = new Date('2026-10-01T12:00:00.000Z');
+
+    expect(docsAgeDays(status, now)).toBe(30);
+    expect(staleWarning(status, 31, now)).toBeNull();
+    expect(staleWarning(status, 0, now)).toBeNull();
+    expect(staleWarning(status, 30, now)).toBe(
+      'Warning: the documentation database is 30 days old (fetched 2026-09-01), so these results may be out of date. Run /refresh-docs to update it.'
+    );
+
+    expect(formatDocsStatus(status, '/cache/docs.parquet', 60, now)).toBe(
+      [
+        'Documentation database: /cache/docs.parquet',
+        'Fetched: 2026-09-01T00:00:00.000Z (30 days ago)',
+        'Pages: 2 of 2 in the docs index',
+        'Failed fetches: 0',
+        'Stale after: 60 days',
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,221 @@
+import { getAllPageContents, type PageText, type ParquetStore } from './db.ts';
+import { loadCachedSidecar } from './sidecar.ts';
+import { normalizeWord, tokenize } from './tokenize.ts';
+
+export const HTTP_METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'] as const;
+
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+export type ApiParameter = {
+  name: string;
+  location: 'path' | 'query' | 'header';
+  type: string | null;
+  required: boolean;
+};
+
+export type ApiEndpoint = {
+  method: HttpMethod;
+  path: string;
+  /** Operation name, taken from the page title, e.g. "List objects". */
+  name: string;
+  description: string;
+  parameters: ApiParameter[];
+  requestBody: string | null;
+  responseBody: string | null;
+  scopes: string[];
+  url: string;
+};
+
+export type ApiHit = ApiEndpoint & { score: number };
+
+export type ApiSearchOptions = {
+  method?: string;
+  limit?: number;
+};
+
+export const API_CATALOG_VERSION = 1;
+export const DEFAULT_API_LIMIT = 5;
+export const MAX_API_LIMIT = 20;
+
+const ENDPOINT_RE = /\b(GET|POST|PUT|PATCH|DELETE)\s+(\/api\/[\w{}./:-]+)/g;
+const SCOPE_RE = /\bapi:[a-z][\w-]*/g;
+const SECTION_RE =
+  /\b(Path parameters|Query parameters|Header parameters|Request body|Response body|Examples?)\b/gi;
+const PARAMETER_RE =
+  /(?:^|[\n.:]\s*|\s)([a-z][A-Za-z0-9]*)\s+(optional\s+)?(string|integer|long|double|boolean|[A-Z][A-Za-z0-9]*(?:<[^>]{1,40}>)?)\b/g;
+const SHAPE_CHARS = 400;
+const DESCRIPTION_CHARS = 300;
+
+type SectionName = 'path' | 'query' | 'header' | 'request' | 'response' | 'example';
+
+function sectionName(label: string): SectionName {
+  const lower = label.toLowerCase();
+  if (lower.startsWith('path')) return 'path';
+  if (lower.startsWith('query')) return 'query';
+  if (lower.startsWith('header')) return 'header';
+  if (lower.startsWith('request')) return 'request';
+  if (lower.startsWith('response')) return 'response';
+  return 'example';
+}
+
+function clip(text: string, max: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length <= max ? clean : `${clean.slice(0, max)}…`;
+}
+
+/** Split the text after the endpoint line at the first occurrence of each section label. */
+function splitApiSections(text: string): { intro: string; sections: Map<SectionName, string> } {
+  const marks: Array<{ name: SectionName; start: number; end: number }> = [];
+  const seen = new Set<SectionName>();
+  for (const match of text.matchAll(SECTION_RE)) {
+    const name = sectionName(match[1]);
+    if (seen.has(name)) continue;
+    seen.add(name);
+    marks.push({ name, start: match.index, end: match.index + match[0].length });
+  }
+
+  const sections = new Map<SectionName, string>();
+  for (let i = 0; i < marks.length; i++) {
+    const next = i + 1 < marks.length ? marks[i + 1].start : text.length;
+    sections.set(marks[i].name, text.slice(marks[i].end, next).trim());
+  }
+  return { intro: marks.length > 0 ? text.slice(0, marks[0].start) : text, sections };
+}
+
+function parseParameters(text: string, location: ApiParameter['location']): ApiParameter[] {
+  const params: ApiParameter[] = [];
+  for (const match of text.matchAll(PARAMETER_RE)) {
+    // "of the Ontology" has the same shape as "ontology OntologyIdentifier"; skip stop words.
+    if (normalizeWord(match[1]) === null || params.some((p) => p.name === match[1])) continue;
+    params.push({ name: match[1], location, type: match[3], required: !match[2] });
+  }
+  return params;
+}
+
+/**
+ * Parse the endpoints documented on one API reference page. Pages without an
+ * `<METHOD> /api/...` line are not API reference pages and yield nothing.
+ */
+export function parseApiPage(page: PageText): ApiEndpoint[] {
+  const matches = Array.from(page.content.matchAll(ENDPOINT_RE));
+  const endpoints: ApiEndpoint[] = [];
+  const scopes = Array.from(new Set(page.content.match(SCOPE_RE) ?? [])).sort();
+
+  for (let i = 0; i < matches.length; i++) {
+    const match = matches[i];
+    const method = match[1] as HttpMethod;
+    const path = match[2].replace(/[.:]+$/, '');
+    if (endpoints.some((e) => e.method === method && e.path === path)) continue;
+
+    const start = match.index + match[0].length;
+    const end = i + 1 < matches.length ? matches[i + 1].index : page.content.length;
+    const { intro, sections } = splitApiSections(page.content.slice(start, end));
+
+    const documented = parseParameters(sections.get('path') ?? '', 'path');
+    const parameters: ApiParameter[] = Array.from(path.matchAll(/\{(\w+)\}/g), (m) => ({
+      name: m[1],
+      location: 'path' as const,
+      type: documented.find((p) => p.name === m[1])?.type ?? null,
+      required: true,
+    }));
+    parameters.push(...parseParameters(sections.get('query') ?? '', 'query'));
+    parameters.push(...parseParameters(sections.get('header') ?? '', 'header'));
+
+    const request = sections.get('request');
+    const response = sections.get('response');
+    endpoints.push({
+      method,
+      path,
+      name: page.title,
+      description: clip(intro, DESCRIPTION_CHARS),
+      parameters,
+      requestBody: request ? clip(request, SHAPE_CHARS) : null,
+      responseBody: response ? clip(response, SHAPE_CHARS) : null,
+      scopes,
+      url: page.url,
+    });
+  }
+
+  return endpoints;
+}
+
+export function buildApiCatalog(pages: PageText[]): ApiEndpoint[] {
+  return pages.flatMap(parseApiPage);
+}
+
+/** Load the API catalog, cached next to the docs database as the `api` sidecar. */
+export async function loadApiCatalog(store: ParquetStore, dbPath: string): Promise<ApiEndpoint[]> {
+  return loadCachedSidecar(store, dbPath, 'api', API_CATALOG_VERSION, async () =>
+    buildApiCatalog(await getAllPageContents(store))
+  );
+}
+
+/**
+ * Rank endpoints by query terms: operation name hits weigh 3, path segments 2, description 1.
+ * A query that is itself an API path (`/api/v2/...`) matches that path exactly first.
+ */
+export function searchApiCatalog(
+  catalog: ApiEndpoint[],
+  query: string,
+  opts: ApiSearchOptions = {}
+): ApiHit[] {
+  const limit = Math.min(Math.max(opts.limit ?? DEFAULT_API_LIMIT, 1), MAX_API_LIMIT);
+  const method = opts.method?.toUpperCase();
+  const terms = Array.from(new Set(tokenize(query)));
+  const exactPath = query.trim().replace(/\/$/, '');
+  if (terms.length === 0) return [];
+
+  const hits: ApiHit[] = [];
+  for (const endpoint of catalog) {
+    if (method && endpoint.method !== method) continue;
+
+    const nameTerms = new Set(tokenize(endpoint.name));
+    const pathTerms = new Set(tokenize(endpoint.path));
+    const textTerms = new Set(tokenize(`${endpoint.description} ${endpoint.url}`));
+    let score = endpoint.path === exactPath ? 100 : 0;
+    for (const term of terms) {
+      if (nameTerms.has(term)) score += 3;
+      if (pathTerms.has(term)) score += 2;
+      if (textTerms.has(term)) score += 1;
+    }
+    if (score > 0) hits.push({ ...endpoint, score });
+  }
+
+  hits.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path));
+  return hits.slice(0, limit);
+}
+
+function formatParameters(label: string, params: ApiParameter[]): string | null {
+  if (params.length === 0) return null;
+  const items = params.map((p) => {
+    const details = [p.type, p.required ? 'required' : 'optional'].filter(Boolean).join(', ');
+    return `${p.name} (${details})`;
+  });
+  return `${label}: ${items.join('; ')}`;
+}
+
+export function formatApiEndpoint(endpoint: ApiEndpoint): string {
+  const lines = [`${endpoint.method} ${endpoint.path} — ${endpoint.name}`, `Docs: ${endpoint.url}`];
+  if (endpoint.description) lines.push(endpoint.description);
+  if (endpoint.scopes.length > 0) lines.push(`Scopes: ${endpoint.scopes.join(', ')}`);
+  for (const [label, location] of [
+    ['Path parameters', 'path'],
+    ['Query parameters', 'query'],
+    ['Header parameters', 'header'],
+  ] as const) {
+    const line = formatParameters(
+      label,
+      endpoint.parameters.filter((p) => p.location === location)
+    );
+    if (line) lines.push(line);
+  }
+  if (endpoint.requestBody) lines.push(`Request body: ${endpoint.requestBody}`);
+  if (endpoint.responseBody) lines.push(`Response body: ${endpoint.responseBody}`);
+  return lines.join('\n');
+}
+
+export function formatApiHits(query: string, hits: ApiHit[]): string {
+  if (hits.length === 0) return `No Foundry API endpoints matched "${query}".`;
+  const blocks = hits.map((hit, i) => `${i + 1}. ${formatApiEndpoint(hit)}`);
+  return `Found ${hits.length} Foundry API endpoints for "${query}":\n\n${blocks.join('\n\n')}`;
+}
@@ -0,0 +1,99 @@
+import { DEFAULT_CHUNK_CHARS, encodeCursor, findChunkEnd } from './chunk.ts';
+import { withFrontMatter } from './citation.ts';
+import type { PageRecord } from './db.ts';
+import type { UrlSuggestion } from './resolve.ts';
+
+export const DEFAULT_BATCH_CHARS = 60_000;
+export const MAX_BATCH_URLS = 20;
+
+export type BatchOptions = {
+  misses?: BatchMiss[];
+  /** Prefix each page with citation front matter. */
+  citations?: boolean;
+};
+
+export type BatchMiss = {
+  url: string;
+  suggestions: UrlSuggestion[];
+};
+
+const MISS_SUGGESTIONS = 3;
+
+/**
+ * Split `total` characters across pages of the given lengths as evenly as possible. Pages shorter
+ * than their share keep their full length and hand the rest to the longer pages.
+ */
+export function allocateBudget(lengths: number[], total: number): number[] {
+  const allocation = lengths.map(() => 0);
+  const order = lengths.map((_, i) => i).sort((a, b) => lengths[a] - lengths[b]);
+  let remaining = Math.max(0, Math.floor(total));
+
+  for (let k = 0; k < order.length; k++) {
+    const i = order[k];
+    const share = Math.floor(remaining / (order.length - k));
+    allocation[i] = Math.min(lengths[i], share);
+    remaining -= allocation[i];
+  }
+  return allocation;
+}
+
+/** Where to cut `content`: a paragraph, line or sentence boundary no later than `maxChars`. */
+function cutAt(content: string, maxChars: number): number {
+  if (content.length <= maxChars) return content.length;
+  if (maxChars <= 0) return 0;
+  return findChunkEnd(content, 0, maxChars);
+}
+
+/**
+ * Render several pages in one result. Each page gets a header with its position and how much of
+ * it is shown; pages cut to fit the budget are listed at the end with a `get_doc_page` cursor
+ * whose first chunk starts where the page was cut.
+ */
+export function formatPageBatch(
+  pages: PageRecord[],
+  maxTotalChars: number,
+  opts: BatchOptions = {}
+): string {
+  const misses = opts.misses ?? [];
+  const allocation = allocateBudget(
+    pages.map((p) => p.content.length),
+    maxTotalChars
+  );
+
+  const blocks: string[] = [];
+  const cut: string[] = [];
+  pages.forEach((page, i) => {
+    const end = cutAt(page.content, allocation[i]);
+    const text = end === page.content.length ? page.content : page.content.slice(0, end).trimEnd();
+    const total = page.content.length;
+    const shown = text.length === total ? `${total} chars` : `${text.length} of ${total} chars`;
+    const body = opts.citations ? withFrontMatter(page, text) : text;
+    blocks.push(
+      `=== [${i + 1}/${pages.length}] ${page.title} (${page.url}) · ${shown} ===\n${body}`
+    );
+    if (text.length < total) {
+      const cursor = encodeCursor({
+        url: page.url,
+        maxChars: DEFAULT_CHUNK_CHARS,
+        chunk: 0,
+        start: end,
+      });
+      cut.push(
+        `- ${page.title} (${page.url}): showed ${text.length} of ${total} chars; continue with get_doc_page cursor "${cursor}"`
+      );
+    }
+  });
+
+  const sections = blocks.length > 0 ? [blocks.join('\n\n')] : [];
+  if (cut.length > 0) {
+    sections.push(`Truncated to fit ${maxTotalChars} chars:\n${cut.join('\n')}`);
+  }
+  if (misses.length > 0) {
+    const lines = misses.map((m) => {
+      const close = m.suggestions.slice(0, MISS_SUGGESTIONS).map((s) => s.url);
+      return close.length > 0 ? `- ${m.url} (did you mean ${close.join(', ')}?)` : `- ${m.url}`;
+    });
+    sections.push(`Not found:\n${lines.join('\n')}`);
+  }
+  return sections.join('\n\n');
+}
@@ -0,0 +1,116 @@
+export type ContentChunk = {
+  index: number;
+  start: number;
+  end: number;
+};
+
+export type PageCursor = {
+  url: string;
+  maxChars: number;
+  chunk: number;
+  /** Offset the chunks are counted from, when not 0: where a `get_doc_pages` result cut the page. */
+  start?: number;
+};
+
+export type ChunkBudget = {
+  maxChars?: number;
+  maxTokens?: number;
+};
+
+export const DEFAULT_CHUNK_CHARS = 20_000;
+export const MIN_CHUNK_CHARS = 200;
+// Rough English average; good enough to turn a token budget into a character budget.
+export const CHARS_PER_TOKEN = 4;
+
+export function resolveChunkChars(budget: ChunkBudget): number {
+  const requested =
+    budget.maxChars ??
+    (budget.maxTokens !== undefined ? budget.maxTokens * CHARS_PER_TOKEN : DEFAULT_CHUNK_CHARS);
+  return Math.max(MIN_CHUNK_CHARS, Math.floor(requested));
+}
+
+/**
+ * Find where a chunk starting at `start` should end. Prefers, in order: a paragraph break, a line
+ * break, a sentence end, any whitespace. Paragraph and line breaks only count in the back half of the
+ * window so a stray blank line near the start does not produce a tiny chunk.
+ */
+export function findChunkEnd(content: string, start: number, maxChars: number): number {
+  const limit = start + maxChars;
+  if (limit >= content.length) return content.length;
+
+  const window = content.slice(start, limit);
+  const half = Math.floor(maxChars / 2);
+
+  const paragraph = window.lastIndexOf('\n\n');
+  if (paragraph >= half) return start + paragraph + 2;
+
+  const line = window.lastIndexOf('\n');
+  if (line >= half) return start + line + 1;
+
+  const sentence = Math.max(
+    window.lastIndexOf('. '),
+    window.lastIndexOf('? '),
+    window.lastIndexOf('! ')
+  );
+  if (sentence > 0) return start + sentence + 2;
+
+  const space = window.search(/\s\S*$/);
+  if (space > 0) return start + space + 1;
+
+  return limit;
+}
+
+export function chunkContent(content: string, maxChars: number, from = 0): ContentChunk[] {
+  const chunks: ContentChunk[] = [];
+  let start = Math.min(from, content.length);
+  while (start < content.length) {
+    const end = findChunkEnd(content, start, maxChars);
+    chunks.push({ index: chunks.length, start, end });
+    start = end;
+  }
+  if (chunks.length === 0) chunks.push({ index: 0, start, end: start });
+  return chunks;
+}
+
+export function chunkIndexAtOffset(chunks: ContentChunk[], offset: number): number {
+  const found = chunks.findIndex((c) => offset < c.end);
+  return found === -1 ? chunks.length - 1 : found;
+}
+
+export function encodeCursor(cursor: PageCursor): string {
+  const fields: unknown[] = [cursor.url, cursor.maxChars, cursor.chunk];
+  if (cursor.start) fields.push(cursor.start);
+  return Buffer.from(JSON.stringify(fields)).toString('base64url');
+}
+
+export function decodeCursor(raw: string): PageCursor | null {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(raw, 'base64url').toString('utf8'));
+    if (!Array.isArray(decoded) || decoded.length < 3 || decoded.length > 4) return null;
+    const [url, maxChars, chunk, start = 0] = decoded;
+    if (typeof url !== 'string') return null;
+    if (!Number.isInteger(maxChars) || maxChars < MIN_CHUNK_CHARS) return null;
+    if (!Number.isInteger(chunk) || chunk < 0) return null;
+    if (!Number.isInteger(start) || start < 0) return null;
+    return start > 0 ? { url, maxChars, chunk, start } : { url, maxChars, chunk };
+  } catch {
+    return null;
+  }
+}
+
+export function formatChunk(
+  content: string,
+  chunks: ContentChunk[],
+  index: number,
+  url: string,
+  maxChars: number
+): string {
+  const chunk = chunks[index];
+  const header = `[Chunk ${index + 1} of ${chunks.length} · chars ${chunk.start}-${chunk.end} of ${content.length}]`;
+  const body = content.slice(chunk.start, chunk.end);
+
+  if (index + 1 >= chunks.length) return `${header}\n\n${body}\n\n[End of page]`;
+
+  const next = encodeCursor({ url, maxChars, chunk: index + 1, start: chunks[0].start });
+  return `${header}\n\n${body}\n\n[More content: call get_doc_page again with cursor "${next}"]`;
+}
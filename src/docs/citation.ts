@@ -0,0 +1,44 @@
+import { readFilters, type PageRecord } from './db.ts';
+import { canonicalDocUrl } from './resolve.ts';
+
+/**
+ * YAML-style front matter identifying where a page's text came from and how fresh it is, so an
+ * agent can cite it. `anchor` points the URL at one section of the page.
+ */
+export function formatFrontMatter(page: PageRecord, anchor?: string): string {
+  const url = canonicalDocUrl(page.url) + (anchor ? `#${anchor}` : '');
+  const lines = [
+    '---',
+    `title: ${JSON.stringify(page.title)}`,
+    `url: ${url}`,
+    `fetched_at: ${page.fetchedAt}`,
+    `word_count: ${page.wordCount}`,
+  ];
+
+  const filters = Object.entries(readFilters(page.meta));
+  if (filters.length > 0) {
+    lines.push('filters:');
+    for (const [key, values] of filters) lines.push(`  ${key}: ${JSON.stringify(values)}`);
+  }
+
+  lines.push('---');
+  return lines.join('\n');
+}
+
+export function withFrontMatter(page: PageRecord, text: string, anchor?: string): string {
+  return `${formatFrontMatter(page, anchor)}\n${text}`;
+}
+
+/** Front matter for a result that lists several pages: the canonical URL and age of each. */
+export function formatSourcesFrontMatter(pages: PageRecord[]): string {
+  const lines = ['---', 'sources:'];
+  for (const page of pages) {
+    lines.push(
+      `  - title: ${JSON.stringify(page.title)}`,
+      `    url: ${canonicalDocUrl(page.url)}`,
+      `    fetched_at: ${page.fetchedAt}`
+    );
+  }
+  lines.push('---');
+  return lines.join('\n');
+}
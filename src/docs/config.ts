@@ -0,0 +1,102 @@
+import { readOpencodeJsonc } from '../palantir-mcp/opencode-config.ts';
+
+/**
+ * Settings read from the `palantir_docs` section of the project's `opencode.jsonc`:
+ *
+ * ```jsonc
+ * "palantir_docs": {
+ *   "path": "~/foundry-docs/docs.parquet",
+ *   "system_context": { "enabled": true, "file": "docs/overview.md", "agents": ["foundry"] },
+ *   "citations": true,
+ *   "snapshots": { "enabled": true, "keep": 12 },
+ *   "stale_after_days": 30
+ * }
+ * ```
+ */
+export type DocsConfig = {
+  /** Docs database location, relative to the worktree; null for the default lookup. */
+  path: string | null;
+  systemContext: {
+    enabled: boolean;
+    /** Overview file to inject instead of the bundled summary, relative to the worktree. */
+    file: string | null;
+    agents: string[];
+  };
+  /** Always prefix page content with citation front matter. */
+  citations: boolean;
+  /** Dated copies of the database written by `/refresh-docs`, for the tools' `asOf` argument. */
+  snapshots: { enabled: boolean; keep: number };
+  /** Warn in docs tool results once the database is this many days old; 0 turns it off. */
+  staleAfterDays: number;
+};
+
+export const DOCS_CONFIG_KEY = 'palantir_docs';
+export const DEFAULT_CONTEXT_AGENTS: readonly string[] = ['foundry-librarian', 'foundry'];
+export const DEFAULT_SNAPSHOT_KEEP = 12;
+export const DEFAULT_STALE_AFTER_DAYS = 30;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+export function defaultDocsConfig(): DocsConfig {
+  return {
+    path: null,
+    systemContext: { enabled: true, file: null, agents: [...DEFAULT_CONTEXT_AGENTS] },
+    citations: false,
+    snapshots: { enabled: false, keep: DEFAULT_SNAPSHOT_KEEP },
+    staleAfterDays: DEFAULT_STALE_AFTER_DAYS,
+  };
+}
+
+/** Apply the `palantir_docs` section on top of the defaults, ignoring malformed values. */
+export function parseDocsConfig(data: unknown): DocsConfig {
+  const config: DocsConfig = defaultDocsConfig();
+  if (!isRecord(data)) return config;
+  const section: unknown = data[DOCS_CONFIG_KEY];
+  if (!isRecord(section)) return config;
+
+  if (typeof section['path'] === 'string' && section['path'].trim().length > 0) {
+    config.path = section['path'].trim();
+  }
+
+  const context: unknown = section['system_context'];
+  if (typeof context === 'boolean') {
+    config.systemContext.enabled = context;
+  } else if (isRecord(context)) {
+    if (typeof context['enabled'] === 'boolean') config.systemContext.enabled = context['enabled'];
+    if (typeof context['file'] === 'string' && context['file'].length > 0) {
+      config.systemContext.file = context['file'];
+    }
+    if (Array.isArray(context['agents'])) {
+      config.systemContext.agents = context['agents'].filter(
+        (a): a is string => typeof a === 'string'
+      );
+    }
+  }
+
+  if (typeof section['citations'] === 'boolean') config.citations = section['citations'];
+
+  const snapshots: unknown = section['snapshots'];
+  if (typeof snapshots === 'boolean') {
+    config.snapshots.enabled = snapshots;
+  } else if (isRecord(snapshots)) {
+    config.snapshots.enabled = snapshots['enabled'] !== false;
+    const keep = snapshots['keep'];
+    if (typeof keep === 'number' && Number.isInteger(keep) && keep > 0)
+      config.snapshots.keep = keep;
+  }
+
+  const staleAfter = section['stale_after_days'];
+  if (typeof staleAfter === 'number' && Number.isFinite(staleAfter) && staleAfter >= 0) {
+    config.staleAfterDays = staleAfter;
+  }
+
+  return config;
+}
+
+/** Read the docs settings; a missing or unparsable `opencode.jsonc` yields the defaults. */
+export async function readDocsConfig(worktree: string): Promise<DocsConfig> {
+  const result = await readOpencodeJsonc(worktree);
+  return parseDocsConfig(result.ok ? result.data : null);
+}
@@ -1,4 +1,13 @@
-import { parquetReadObjects } from 'hyparquet';
+import fs from 'node:fs';
+import { promisify } from 'node:util';
+import {
+  parquetMetadataAsync,
+  parquetReadObjects,
+  type AsyncBuffer,
+  type FileMetaData,
+} from 'hyparquet';
+import { checkSchema } from './schema.ts';
+import type { SourceFingerprint } from './sidecar.ts';
 
 export type PageRecord = {
   url: string;
@@ -7,33 +16,148 @@ export type PageRecord = {
   wordCount: number;
   meta: Record<string, unknown>;
   fetchedAt: string;
+  /** Pagefind fragment the page was fetched from; a content hash, so unchanged pages keep it. */
+  fragmentHash?: string;
 };
 
-type PageListing = {
+export type PageListing = {
   url: string;
   title: string;
 };
 
+export type PageText = {
+  url: string;
+  title: string;
+  content: string;
+};
+
+/**
+ * An open docs database. Only the footer metadata and the URL/title index stay in memory; page
+ * content is read from disk on demand through `file`, with the most recently used pages cached.
+ */
 export type ParquetStore = {
-  file: ArrayBuffer;
+  /** Byte-range reader over the open file. */
+  file: AsyncBuffer;
+  metadata: FileMetaData;
   index: PageListing[];
   urlToRow: Map<string, number>;
+  /** Decoded pages by row, least recently used first. */
+  pageCache: Map<number, PageRecord>;
+  pageCacheSize: number;
+  /** The open file, closed by `closeDatabase` once no reads are in flight. */
+  handle: FileHandle;
+  /** Size and mtime of the opened file, which stamp the caches derived from it. */
+  source: SourceFingerprint;
+  /** Inode of the opened file, to notice when another file is renamed over the path. */
+  ino: number;
+};
+
+export type DatabaseOptions = {
+  /** Decoded pages kept in memory (default `DEFAULT_PAGE_CACHE_SIZE`). */
+  pageCacheSize?: number;
 };
 
-export async function createDatabase(path: string): Promise<ParquetStore> {
-  const file = await Bun.file(path).arrayBuffer();
+export const DEFAULT_PAGE_CACHE_SIZE = 64;
+
+/** Key-value metadata naming the column the rows are sorted by. */
+export const SORT_ORDER_KEY = 'palantir_docs.sorted_by';
+
+/** Code-unit order, which matches the byte order of the Parquet statistics for ASCII URLs. */
+export function compareUrls(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * An open file descriptor with a count of the reads using it. The descriptor is only closed when
+ * none are in flight: the kernel hands out freed descriptor numbers again, so a read still queued
+ * on a closed one could read some other file.
+ */
+type FileHandle = { fd: number; reads: number; closed: boolean };
+
+const openFile = promisify(fs.open);
+const fstat = promisify(fs.fstat);
+const readFile = promisify(fs.read);
+
+/**
+ * Read byte ranges through an open file descriptor. Unlike reopening the path for each read, this
+ * keeps reading the same file after a refresh renames a new database over it.
+ */
+function asyncBufferFromFd(handle: FileHandle, byteLength: number): AsyncBuffer {
+  return {
+    byteLength,
+    async slice(start, end = byteLength) {
+      if (handle.closed) throw new Error('The docs database was closed');
+      const buffer = new Uint8Array(Math.max(0, end - start));
+      let read = 0;
+      handle.reads++;
+      try {
+        while (read < buffer.length) {
+          const { bytesRead } = await readFile(
+            handle.fd,
+            buffer,
+            read,
+            buffer.length - read,
+            start + read
+          );
+          if (bytesRead === 0) break;
+          read += bytesRead;
+        }
+      } finally {
+        handle.reads--;
+        if (handle.closed && handle.reads === 0) fs.close(handle.fd, () => {});
+      }
+      return buffer.buffer.slice(0, read);
+    },
+  };
+}
+
+export async function createDatabase(
+  path: string,
+  opts: DatabaseOptions = {}
+): Promise<ParquetStore> {
+  const fd = await openFile(path, 'r');
+  const handle: FileHandle = { fd, reads: 0, closed: false };
+  try {
+    const stat = await fstat(fd);
+    const file = asyncBufferFromFd(handle, stat.size);
+    const metadata = await parquetMetadataAsync(file);
+    const problem = checkSchema(metadata);
+    if (problem) throw new Error(`Cannot open ${path}: ${problem}`);
+
+    const rows = await parquetReadObjects({ file, metadata, columns: ['url', 'title'] });
+    const index: PageListing[] = [];
+    const urlToRow = new Map<string, number>();
 
-  const rows = await parquetReadObjects({ file, columns: ['url', 'title'] });
-  const index: PageListing[] = [];
-  const urlToRow = new Map<string, number>();
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i] as PageListing;
+      index.push({ url: row.url, title: row.title });
+      urlToRow.set(row.url, i);
+    }
 
-  for (let i = 0; i < rows.length; i++) {
-    const row = rows[i] as PageListing;
-    index.push({ url: row.url, title: row.title });
-    urlToRow.set(row.url, i);
+    return {
+      file,
+      metadata,
+      index,
+      urlToRow,
+      pageCache: new Map(),
+      pageCacheSize: opts.pageCacheSize ?? DEFAULT_PAGE_CACHE_SIZE,
+      handle,
+      source: { size: stat.size, mtimeMs: stat.mtimeMs },
+      ino: stat.ino,
+    };
+  } catch (error) {
+    fs.close(fd, () => {});
+    throw error;
   }
+}
 
-  return { file, index, urlToRow };
+function cachePage(store: ParquetStore, rowIndex: number, page: PageRecord): void {
+  store.pageCache.delete(rowIndex);
+  store.pageCache.set(rowIndex, page);
+  while (store.pageCache.size > store.pageCacheSize) {
+    const oldest = store.pageCache.keys().next().value as number;
+    store.pageCache.delete(oldest);
+  }
 }
 
 export async function getPage(store: ParquetStore, url: string): Promise<PageRecord | null> {
@@ -42,8 +166,15 @@ export async function getPage(store: ParquetStore, url: string): Promise<PageRec
     return null;
   }
 
+  const cached = store.pageCache.get(rowIndex);
+  if (cached) {
+    cachePage(store, rowIndex, cached);
+    return cached;
+  }
+
   const rows = await parquetReadObjects({
     file: store.file,
+    metadata: store.metadata,
     rowStart: rowIndex,
     rowEnd: rowIndex + 1,
   });
@@ -52,17 +183,42 @@ export async function getPage(store: ParquetStore, url: string): Promise<PageRec
     return null;
   }
 
-  const row = rows[0] as Record<string, unknown>;
+  const page = toPageRecord(rows[0]);
+  if (store.pageCacheSize > 0) cachePage(store, rowIndex, page);
+  return page;
+}
+
+function parseMeta(value: unknown): Record<string, unknown> {
+  let meta = value;
+  if (typeof value === 'string') {
+    try {
+      meta = JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  return meta && typeof meta === 'object' && !Array.isArray(meta)
+    ? (meta as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Decode a row, tolerating what older or hand-built files may hold: missing or non-numeric word
+ * counts are recounted, and `meta` that is absent or not a JSON object becomes `{}`.
+ */
+export function toPageRecord(row: Record<string, unknown>): PageRecord {
+  const content = typeof row.content === 'string' ? row.content : '';
+  const rawCount = row.word_count;
+  const wordCount =
+    typeof rawCount === 'number' || typeof rawCount === 'bigint' ? Number(rawCount) : NaN;
   return {
-    url: row.url as string,
-    title: row.title as string,
-    content: row.content as string,
-    wordCount: row.word_count as number,
-    meta: (typeof row.meta === 'string' ? JSON.parse(row.meta) : (row.meta ?? {})) as Record<
-      string,
-      unknown
-    >,
-    fetchedAt: row.fetched_at as string,
+    url: String(row.url),
+    title: typeof row.title === 'string' ? row.title : '',
+    content,
+    wordCount: Number.isFinite(wordCount) ? wordCount : content.split(/\s+/).filter(Boolean).length,
+    meta: parseMeta(row.meta),
+    fetchedAt: typeof row.fetched_at === 'string' ? row.fetched_at : '',
+    ...(typeof row.fragment_hash === 'string' ? { fragmentHash: row.fragment_hash } : {}),
   };
 }
 
@@ -70,7 +226,105 @@ export function getAllPages(store: ParquetStore): PageListing[] {
   return store.index;
 }
 
+export async function getAllPageContents(store: ParquetStore): Promise<PageText[]> {
+  const rows = await parquetReadObjects({
+    file: store.file,
+    metadata: store.metadata,
+    columns: ['url', 'title', 'content'],
+  });
+  return rows.map((row) => ({
+    url: row.url as string,
+    title: row.title as string,
+    content: (row.content as string | null) ?? '',
+  }));
+}
+
+/** Every page with all its columns, for rewriting the database. */
+export async function getAllPageRecords(store: ParquetStore): Promise<PageRecord[]> {
+  const rows = await parquetReadObjects({ file: store.file, metadata: store.metadata });
+  return rows.map(toPageRecord);
+}
+
+/** Pagefind filters from page metadata, e.g. `{ product: ['Foundry'] }`, with empty values dropped. */
+export function readFilters(meta: Record<string, unknown>): Record<string, string[]> {
+  const raw: unknown = meta['filters'];
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+
+  const filters: Record<string, string[]> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const values = (Array.isArray(value) ? value : [value]).filter(
+      (v): v is string => typeof v === 'string' && v.length > 0
+    );
+    if (values.length > 0) filters[key] = values;
+  }
+  return filters;
+}
+
+/** Facet name → facet value → URLs of the pages tagged with it. */
+export type FacetIndex = Map<string, Map<string, Set<string>>>;
+
+const facetIndexes = new WeakMap<ParquetStore, FacetIndex>();
+
+/**
+ * Index the Pagefind filters stored in each page's `meta` (product, section, ...). Built on first
+ * use since it reads the `meta` column of every row.
+ */
+export async function getFacetIndex(store: ParquetStore): Promise<FacetIndex> {
+  const cached = facetIndexes.get(store);
+  if (cached) return cached;
+
+  const rows = await parquetReadObjects({
+    file: store.file,
+    metadata: store.metadata,
+    columns: ['url', 'meta'],
+  });
+  const index: FacetIndex = new Map();
+  for (const row of rows) {
+    const url = row.url as string;
+    for (const [facet, values] of Object.entries(readFilters(parseMeta(row.meta)))) {
+      let byValue = index.get(facet);
+      if (!byValue) {
+        byValue = new Map();
+        index.set(facet, byValue);
+      }
+      for (const value of values) {
+        let urls = byValue.get(value);
+        if (!urls) {
+          urls = new Set();
+          byValue.set(value, urls);
+        }
+        urls.add(url);
+      }
+    }
+  }
+
+  facetIndexes.set(store, index);
+  return index;
+}
+
+/**
+ * Whether `path` now holds a different file than the one the store opened, e.g. because a refresh
+ * in another session renamed a new database over it. A missing file counts as unchanged.
+ */
+export async function isDatabaseReplaced(store: ParquetStore, path: string): Promise<boolean> {
+  let stat: fs.Stats;
+  try {
+    stat = await fs.promises.stat(path);
+  } catch {
+    return false;
+  }
+  return (
+    stat.ino !== store.ino ||
+    stat.size !== store.source.size ||
+    stat.mtimeMs !== store.source.mtimeMs
+  );
+}
+
 export function closeDatabase(store: ParquetStore): void {
   store.index = [];
   store.urlToRow.clear();
+  store.pageCache.clear();
+  // Later reads fail; the last read in flight closes the descriptor when it finishes.
+  store.handle.closed = true;
+  if (store.handle.reads === 0) fs.close(store.handle.fd, () => {});
 }
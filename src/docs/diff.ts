@@ -0,0 +1,209 @@
+import { createHash } from 'node:crypto';
+import { getAllPageContents, type PageListing, type ParquetStore } from './db.ts';
+
+export type SnapshotDigest = Map<string, { title: string; hash: string }>;
+
+export type DocsDiff = {
+  added: PageListing[];
+  removed: PageListing[];
+  modified: PageListing[];
+  unchanged: number;
+};
+
+export type DiffLine = {
+  op: ' ' | '-' | '+';
+  text: string;
+};
+
+/** Pages listed per change kind in the summary. */
+export const MAX_LISTED_CHANGES = 100;
+export const MAX_DIFF_LINES = 300;
+
+const DIFF_CONTEXT = 2;
+// Above this many LCS cells the changed middle is shown as one removal plus one addition.
+const MAX_LCS_CELLS = 4_000_000;
+
+export function contentHash(content: string): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/** URL → title and content hash for every page of a snapshot. */
+export async function digestSnapshot(store: ParquetStore): Promise<SnapshotDigest> {
+  const digest: SnapshotDigest = new Map();
+  for (const page of await getAllPageContents(store)) {
+    digest.set(page.url, { title: page.title, hash: contentHash(page.content) });
+  }
+  return digest;
+}
+
+function byUrl(a: PageListing, b: PageListing): number {
+  return a.url.localeCompare(b.url);
+}
+
+/** Compare two snapshots by URL; a page whose content hash differs counts as modified. */
+export function diffSnapshots(previous: SnapshotDigest, current: SnapshotDigest): DocsDiff {
+  const diff: DocsDiff = { added: [], removed: [], modified: [], unchanged: 0 };
+  for (const [url, page] of current) {
+    const before = previous.get(url);
+    if (!before) diff.added.push({ url, title: page.title });
+    else if (before.hash !== page.hash) diff.modified.push({ url, title: page.title });
+    else diff.unchanged++;
+  }
+  for (const [url, page] of previous) {
+    if (!current.has(url)) diff.removed.push({ url, title: page.title });
+  }
+  diff.added.sort(byUrl);
+  diff.removed.sort(byUrl);
+  diff.modified.sort(byUrl);
+  return diff;
+}
+
+function formatChangeList(label: string, pages: PageListing[]): string {
+  const lines = pages.slice(0, MAX_LISTED_CHANGES).map((p) => `- ${p.title} (${p.url})`);
+  if (pages.length > MAX_LISTED_CHANGES) {
+    lines.push(`- … ${pages.length - MAX_LISTED_CHANGES} more`);
+  }
+  return `${label} (${pages.length}):\n${lines.join('\n')}`;
+}
+
+export function formatDocsDiff(diff: DocsDiff): string {
+  const changed = diff.added.length + diff.removed.length + diff.modified.length;
+  if (changed === 0) {
+    return `No documentation changes since the previous snapshot (${diff.unchanged} pages).`;
+  }
+
+  const sections = [
+    `Documentation changes since the previous snapshot: ${diff.added.length} added, ${diff.removed.length} removed, ${diff.modified.length} modified, ${diff.unchanged} unchanged.`,
+  ];
+  if (diff.added.length > 0) sections.push(formatChangeList('Added', diff.added));
+  if (diff.removed.length > 0) sections.push(formatChangeList('Removed', diff.removed));
+  if (diff.modified.length > 0) sections.push(formatChangeList('Modified', diff.modified));
+  sections.push('Run /docs-diff <url> to see the text diff of one page.');
+  return sections.join('\n\n');
+}
+
+/**
+ * Split page text into lines, and long lines into sentences, so that a one-word edit in a
+ * paragraph Pagefind flattened onto one line does not mark the whole paragraph as changed.
+ */
+function diffSegments(content: string): string[] {
+  const out: string[] = [];
+  for (const line of content.split(/\n+/)) {
+    for (const part of line.split(/(?<=[.!?])\s+(?=[A-Z])/)) {
+      if (part.trim()) out.push(part.trim());
+    }
+  }
+  return out;
+}
+
+/** Longest-common-subsequence diff of the segments between the common prefix and suffix. */
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...a.map((text): DiffLine => ({ op: '-', text })),
+      ...b.map((text): DiffLine => ({ op: '+', text })),
+    ];
+  }
+
+  // lcs[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      lines.push({ op: ' ', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      lines.push({ op: '-', text: a[i++] });
+    } else {
+      lines.push({ op: '+', text: b[j++] });
+    }
+  }
+  while (i < n) lines.push({ op: '-', text: a[i++] });
+  while (j < m) lines.push({ op: '+', text: b[j++] });
+  return lines;
+}
+
+export function diffText(before: string, after: string): DiffLine[] {
+  const a = diffSegments(before);
+  const b = diffSegments(after);
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  return [
+    ...a.slice(0, prefix).map((text): DiffLine => ({ op: ' ', text })),
+    ...diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix)),
+    ...a.slice(a.length - suffix).map((text): DiffLine => ({ op: ' ', text })),
+  ];
+}
+
+/** Changed lines with `DIFF_CONTEXT` unchanged lines around them; skipped runs become `…`. */
+function formatHunks(lines: DiffLine[]): string[] {
+  const shown = lines.map(() => false);
+  lines.forEach((line, i) => {
+    if (line.op === ' ') return;
+    const end = Math.min(lines.length - 1, i + DIFF_CONTEXT);
+    for (let k = Math.max(0, i - DIFF_CONTEXT); k <= end; k++) shown[k] = true;
+  });
+
+  const out: string[] = [];
+  let skipped = false;
+  lines.forEach((line, i) => {
+    if (!shown[i]) {
+      skipped = true;
+      return;
+    }
+    if (skipped) out.push('…');
+    skipped = false;
+    out.push(`${line.op} ${line.text}`);
+  });
+  if (skipped) out.push('…');
+  return out;
+}
+
+/**
+ * Text diff of one page between the previous and the current snapshot. `before` or `after` is
+ * null when the page only exists in one of them.
+ */
+export function formatPageDiff(
+  page: PageListing,
+  before: string | null,
+  after: string | null
+): string {
+  const label = `${page.title} (${page.url})`;
+  if (before === null) return `${label} was added since the previous snapshot.`;
+  if (after === null) return `${label} was removed since the previous snapshot.`;
+  if (before === after) return `${label} is unchanged since the previous snapshot.`;
+
+  const lines = diffText(before, after);
+  const removed = lines.filter((l) => l.op === '-').length;
+  const added = lines.filter((l) => l.op === '+').length;
+  if (removed + added === 0)
+    return `${label} only changed in whitespace since the previous snapshot.`;
+  const hunks = formatHunks(lines);
+  const body = hunks.slice(0, MAX_DIFF_LINES);
+  if (hunks.length > MAX_DIFF_LINES) body.push(`… ${hunks.length - MAX_DIFF_LINES} more lines`);
+  return `Changes to ${label} since the previous snapshot (${removed} lines removed, ${added} added):\n\n${body.join('\n')}`;
+}
@@ -0,0 +1,251 @@
+import { getAllPageContents, type PageText, type ParquetStore } from './db.ts';
+import { loadCachedSidecar } from './sidecar.ts';
+import { tokenize } from './tokenize.ts';
+
+export const EXAMPLE_LANGUAGES = ['python', 'typescript', 'java', 'sql', 'shell', 'json'] as const;
+
+export type ExampleLanguage = (typeof EXAMPLE_LANGUAGES)[number] | 'unknown';
+
+export type DocExample = {
+  url: string;
+  title: string;
+  language: ExampleLanguage;
+  code: string;
+  /** Prose right before the code, usually the sentence introducing it. */
+  before: string;
+  after: string;
+};
+
+export type ExampleHit = DocExample & { score: number };
+
+export type ExampleSearchOptions = {
+  language?: string;
+  limit?: number;
+};
+
+export const EXAMPLES_INDEX_VERSION = 1;
+export const DEFAULT_EXAMPLES_LIMIT = 5;
+export const MAX_EXAMPLES_LIMIT = 20;
+
+const SIGNATURES: Record<Exclude<ExampleLanguage, 'unknown'>, RegExp[]> = {
+  python: [
+    /@transform(?:_df|_pandas|_polars)?\s*\(/,
+    /\bdef \w+\s*\(/,
+    /\bfrom [\w.]+ import \w/,
+    /\bimport \w+(?:\.\w+)* as \w+/,
+    /\b(?:self|None|True|False)\b[^.]*[=:(),]/,
+    /\b\w+\s*=\s*\w+\.(?:withColumn|filter|select|join|groupBy)\(/,
+  ],
+  typescript: [
+    /\b(?:const|let) \w+(?:\s*:\s*[\w<>[\]|]+)?\s*=/,
+    /\bimport (?:\{[^}]*\}|\w+|\* as \w+) from ["']/,
+    /\)\s*(?::\s*[\w<>[\]|]+\s*)?=>/,
+    /\b(?:export (?:default |async )?(?:function|class|const)|interface \w+\s*\{)/,
+    /@(?:Function|OntologyEditFunction|Edits)\(/,
+    /\bawait \w+(?:\.\w+)*\(/,
+  ],
+  java: [
+    /\bpublic (?:static )?(?:final )?(?:class|void|[A-Z]\w*) \w+/,
+    /\bprivate (?:final )?[A-Z]\w* \w+;/,
+    /\bnew [A-Z]\w*(?:<[^>]*>)?\(/,
+  ],
+  sql: [
+    /\bSELECT\b[^;]{1,200}\bFROM\b/,
+    /\b(?:INSERT INTO|CREATE TABLE|GROUP BY|LEFT JOIN|INNER JOIN)\b/,
+  ],
+  shell: [/(?:^|\$ )(?:npm|npx|pip|curl|git|bun|yarn|pnpm) [\w-]+/m, /\bexport [A-Z_]+=/],
+  json: [/^\s*[{[]\s*"[\w-]+"\s*:/],
+};
+
+const FENCE_RE = /```([\w+-]*)[^\n]*\n([\s\S]*?)```/g;
+const CODE_PUNCTUATION_RE = /[(){}[\];=<>]/g;
+const MIN_PUNCTUATION_DENSITY = 0.03;
+const MIN_CODE_CHARS = 20;
+const MAX_CODE_CHARS = 1500;
+const CONTEXT_CHARS = 300;
+const SHORT_LINE_CHARS = 40;
+
+const FENCE_LANGUAGES: Record<string, ExampleLanguage> = {
+  py: 'python',
+  python: 'python',
+  ts: 'typescript',
+  typescript: 'typescript',
+  js: 'typescript',
+  javascript: 'typescript',
+  tsx: 'typescript',
+  java: 'java',
+  sql: 'sql',
+  sh: 'shell',
+  bash: 'shell',
+  shell: 'shell',
+  json: 'json',
+};
+
+function matchLanguages(code: string): { language: ExampleLanguage; hits: number } {
+  let language: ExampleLanguage = 'unknown';
+  let hits = 0;
+  for (const [candidate, patterns] of Object.entries(SIGNATURES)) {
+    const count = patterns.filter((re) => re.test(code)).length;
+    if (count > hits) {
+      language = candidate as ExampleLanguage;
+      hits = count;
+    }
+  }
+  return { language, hits };
+}
+
+/** Language whose signatures match the snippet most often; 'unknown' when none do. */
+export function detectLanguage(code: string): ExampleLanguage {
+  return matchLanguages(code).language;
+}
+
+/**
+ * 'strong' segments start a snippet: several language signatures, or one plus code punctuation.
+ * 'weak' segments only extend one: a single signature (`from x import y`), or a short line that
+ * does not read like prose (`return df`).
+ */
+function codeSignal(segment: string): 'strong' | 'weak' | 'none' {
+  const { hits } = matchLanguages(segment);
+  const punctuation = segment.match(CODE_PUNCTUATION_RE)?.length ?? 0;
+  const dense = punctuation / segment.length >= MIN_PUNCTUATION_DENSITY;
+  if (hits >= 2 || (hits === 1 && dense && segment.length >= MIN_CODE_CHARS)) return 'strong';
+  if (hits === 1) return 'weak';
+  if (segment.length < SHORT_LINE_CHARS && /^[a-z_$@#)}\]]/.test(segment)) return 'weak';
+  return 'none';
+}
+
+function clipCode(code: string): string {
+  return code.length <= MAX_CODE_CHARS ? code : `${code.slice(0, MAX_CODE_CHARS)}\n…`;
+}
+
+function clip(text: string, max: number, fromEnd = false): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (clean.length <= max) return clean;
+  return fromEnd ? `…${clean.slice(-max)}` : `${clean.slice(0, max)}…`;
+}
+
+/**
+ * Split page text into lines, and long lines into sentences. Pagefind flattens most code blocks
+ * onto one line, so a snippet usually survives as a single segment.
+ */
+function segments(content: string): string[] {
+  const out: string[] = [];
+  for (const line of content.split(/\n+/)) {
+    for (const part of line.split(/(?<=[.!?])\s+(?=[A-Z][a-z])/)) {
+      if (part.trim()) out.push(part.trim());
+    }
+  }
+  return out;
+}
+
+/** Extract fenced code blocks and code-like text runs from one page. */
+export function extractExamples(page: PageText): DocExample[] {
+  const examples: DocExample[] = [];
+  let prose = page.content;
+
+  for (const match of page.content.matchAll(FENCE_RE)) {
+    const code = match[2].trim();
+    if (code.length < MIN_CODE_CHARS) continue;
+    const tag = FENCE_LANGUAGES[match[1].toLowerCase()];
+    examples.push({
+      url: page.url,
+      title: page.title,
+      language: tag ?? detectLanguage(code),
+      code: clipCode(code),
+      before: clip(page.content.slice(0, match.index), CONTEXT_CHARS, true),
+      after: clip(page.content.slice(match.index + match[0].length), CONTEXT_CHARS),
+    });
+    prose = prose.replace(match[0], '\n');
+  }
+
+  const parts = segments(prose);
+  const signals = parts.map(codeSignal);
+  let consumed = 0;
+  for (let i = 0; i < parts.length; i++) {
+    if (signals[i] !== 'strong') continue;
+
+    // Imports and similar lines before the first strong line belong to the snippet too.
+    let start = i;
+    while (start > consumed && matchLanguages(parts[start - 1]).hits > 0) start--;
+    let end = i;
+    while (end + 1 < parts.length && signals[end + 1] !== 'none') end++;
+
+    const code = parts.slice(start, end + 1).join('\n');
+    examples.push({
+      url: page.url,
+      title: page.title,
+      language: detectLanguage(code),
+      code: clipCode(code),
+      before: clip(
+        parts.slice(Math.max(consumed, start - 2), start).join(' '),
+        CONTEXT_CHARS,
+        true
+      ),
+      after: clip(parts.slice(end + 1, end + 3).join(' '), CONTEXT_CHARS),
+    });
+    consumed = end + 1;
+    i = end;
+  }
+
+  return examples;
+}
+
+export function buildExamplesIndex(pages: PageText[]): DocExample[] {
+  return pages.flatMap(extractExamples);
+}
+
+/** Load the examples index, cached next to the docs database as the `examples` sidecar. */
+export async function loadExamplesIndex(
+  store: ParquetStore,
+  dbPath: string
+): Promise<DocExample[]> {
+  return loadCachedSidecar(store, dbPath, 'examples', EXAMPLES_INDEX_VERSION, async () =>
+    buildExamplesIndex(await getAllPageContents(store))
+  );
+}
+
+/**
+ * Rank examples by query terms: a term found in the code counts double, one in the page title or
+ * surrounding prose counts once. Examples matching no term are dropped.
+ */
+export function searchExamples(
+  examples: DocExample[],
+  query: string,
+  opts: ExampleSearchOptions = {}
+): ExampleHit[] {
+  const limit = Math.min(Math.max(opts.limit ?? DEFAULT_EXAMPLES_LIMIT, 1), MAX_EXAMPLES_LIMIT);
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return [];
+  const language = opts.language?.toLowerCase();
+
+  const hits: ExampleHit[] = [];
+  for (const example of examples) {
+    if (language && example.language !== (FENCE_LANGUAGES[language] ?? language)) continue;
+
+    const codeTerms = new Set(tokenize(example.code));
+    const textTerms = new Set(tokenize(`${example.title} ${example.before} ${example.after}`));
+    let score = 0;
+    for (const term of terms) {
+      if (codeTerms.has(term)) score += 2;
+      if (textTerms.has(term)) score += 1;
+    }
+    if (score > 0) hits.push({ ...example, score });
+  }
+
+  hits.sort((a, b) => b.score - a.score || a.code.length - b.code.length);
+  return hits.slice(0, limit);
+}
+
+export function formatExamples(query: string, hits: ExampleHit[], language?: string): string {
+  const scope = language ? ` in ${language}` : '';
+  if (hits.length === 0) return `No code examples matched "${query}"${scope}.`;
+
+  const blocks = hits.map((hit, i) => {
+    const lines = [`${i + 1}. ${hit.title} (${hit.url}) — ${hit.language}`];
+    if (hit.before) lines.push(`   Before: ${hit.before}`);
+    lines.push('```' + (hit.language === 'unknown' ? '' : hit.language), hit.code, '```');
+    if (hit.after) lines.push(`   After: ${hit.after}`);
+    return lines.join('\n');
+  });
+  return `Found ${hits.length} code examples for "${query}"${scope}:\n\n${blocks.join('\n\n')}`;
+}
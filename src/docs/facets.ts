@@ -0,0 +1,86 @@
+import type { FacetIndex, PageListing } from './db.ts';
+
+export type FacetFilters = Record<string, string>;
+
+export type FacetMatch = { urls: Set<string> } | { error: string };
+
+/** Facet values listed per facet when no single facet is requested. */
+export const FACET_VALUES_PREVIEW = 20;
+
+function findKey<T>(map: Map<string, T>, wanted: string): string | null {
+  const lower = wanted.trim().toLowerCase();
+  for (const key of map.keys()) if (key.toLowerCase() === lower) return key;
+  return null;
+}
+
+/**
+ * URLs of the pages matching every facet filter (names and values compared case-insensitively),
+ * or an error naming the unknown facet or value.
+ */
+export function matchFacets(index: FacetIndex, filters: FacetFilters): FacetMatch {
+  let urls: Set<string> | undefined;
+  for (const [rawFacet, rawValue] of Object.entries(filters)) {
+    const facet = findKey(index, rawFacet);
+    if (facet === null) return { error: `Unknown facet: ${rawFacet}` };
+    const values = index.get(facet)!;
+    const value = findKey(values, rawValue);
+    if (value === null) return { error: `Unknown value for facet ${facet}: ${rawValue}` };
+
+    const tagged = values.get(value)!;
+    const previous: Set<string> | undefined = urls;
+    urls = previous ? new Set([...previous].filter((u) => tagged.has(u))) : new Set(tagged);
+  }
+  return { urls: urls ?? new Set() };
+}
+
+export function filterByFacetUrls(pages: PageListing[], urls: Set<string>): PageListing[] {
+  return pages.filter((p) => urls.has(p.url));
+}
+
+export function describeFacetFilters(filters: FacetFilters): string {
+  return Object.entries(filters)
+    .map(([facet, value]) => `${facet}=${value}`)
+    .join(', ');
+}
+
+function sortedValues(values: Map<string, Set<string>>): Array<[string, number]> {
+  return Array.from(values, ([value, urls]): [string, number] => [value, urls.size]).sort(
+    (a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+  );
+}
+
+/**
+ * List facets with their values and page counts. With `facet`, list every value of that facet;
+ * otherwise preview the most common values of each.
+ */
+export function formatFacets(index: FacetIndex, facet?: string): string {
+  if (index.size === 0) {
+    return 'No facets found: the documentation pages carry no Pagefind filters.';
+  }
+
+  if (facet !== undefined) {
+    const key = findKey(index, facet);
+    if (key === null) {
+      return `Unknown facet: ${facet}\n\nAvailable facets: ${Array.from(index.keys()).sort().join(', ')}`;
+    }
+    const values = sortedValues(index.get(key)!);
+    const lines = values.map(([value, count]) => `- ${value} (${count} pages)`);
+    return `Values of facet "${key}" (${values.length}):\n\n${lines.join('\n')}`;
+  }
+
+  const blocks = Array.from(index.keys())
+    .sort()
+    .map((key) => {
+      const values = sortedValues(index.get(key)!);
+      const shown = values.slice(0, FACET_VALUES_PREVIEW);
+      const lines = shown.map(([value, count]) => `- ${value} (${count} pages)`);
+      if (values.length > shown.length) {
+        lines.push(
+          `- … ${values.length - shown.length} more (call list_doc_facets with facet="${key}")`
+        );
+      }
+      return `${key} (${values.length} values):\n${lines.join('\n')}`;
+    });
+  const example = Array.from(index.keys()).sort()[0];
+  return `Documentation facets (Pagefind filters):\n\n${blocks.join('\n\n')}\n\nFilter pages with list_all_docs filters, e.g. {"${example}": "<value>"}.`;
+}
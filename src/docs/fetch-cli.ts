@@ -1,5 +1,5 @@
 /* eslint-disable no-console */
-import { fetchAllDocs } from './fetch.ts';
+import { fetchAllDocs, formatChanges } from './fetch.ts';
 import { mkdirSync } from 'node:fs';
 import { join } from 'node:path';
 
@@ -13,12 +13,15 @@ async function main() {
     const dbPath = join(dataDir, 'docs.parquet');
 
     // Fetch
-    const result = await fetchAllDocs(dbPath);
+    const result = await fetchAllDocs(dbPath, {
+      full: process.argv.includes('--full'),
+      acceptPartial: process.argv.includes('--accept-partial'),
+    });
 
     // Log summary
     console.log('\nFetch complete:');
     console.log(`Total pages: ${result.totalPages}`);
-    console.log(`Fetched: ${result.fetchedPages}`);
+    console.log(`Changes: ${formatChanges(result)}`);
     console.log(`Failed: ${result.failedUrls.length}`);
     if (result.failedUrls.length > 0) {
       console.log('Failed URLs:', result.failedUrls);
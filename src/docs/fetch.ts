@@ -1,7 +1,16 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
 import { gunzipSync } from 'node:zlib';
 import { decode } from 'cborg';
-import { writeParquet } from './write-parquet.ts';
-import type { PageRecord } from './db.ts';
+import {
+  NO_INTERRUPTED_REFRESH_MESSAGE,
+  openJournal,
+  readJournal,
+  removeJournal,
+} from './journal.ts';
+import { rotateSnapshot, writeDatedSnapshot } from './snapshots.ts';
+import { readRefreshStats, writeParquet, type RefreshStats } from './write-parquet.ts';
+import { closeDatabase, createDatabase, getAllPageRecords, type PageRecord } from './db.ts';
 
 export type { PageRecord };
 
@@ -19,9 +28,35 @@ export type PagefindEntry = {
 
 export type FetchResult = {
   totalPages: number;
+  /** Fragments downloaded by this refresh. */
   fetchedPages: number;
+  /** Fragments an interrupted refresh had downloaded, taken from its journal. */
+  resumedPages: number;
+  /** Fragments left undownloaded because a partial result was accepted. */
+  pendingPages: number;
+  /** Pages kept at their previous version because their new fragment was pending or failed. */
+  keptPages: number;
+  /** Pages whose content is the same as in the existing database, fetched again or not. */
+  unchangedPages: number;
+  /** Pages by URL compared with the existing database. */
+  changes: { added: number; updated: number; removed: number };
   failedUrls: string[];
   dbPath: string;
+  /** Dated snapshot written alongside the database, when snapshots are enabled. */
+  snapshotPath?: string;
+};
+
+export type FetchOptions = {
+  /** Also keep a dated copy (`docs-YYYY-MM-DD.parquet`), retaining the newest `keep` of them. */
+  snapshots?: { keep: number };
+  /** Download every fragment instead of reusing pages whose hash is unchanged. */
+  full?: boolean;
+  /**
+   * Write the database from what an interrupted refresh fetched instead of fetching the rest;
+   * the pages not fetched keep their previous version, and the database keeps the refresh stats
+   * of the last complete refresh. Throws when there is no interrupted refresh.
+   */
+  acceptPartial?: boolean;
 };
 
 export const PAGEFIND_BASE = 'https://www.palantir.com/docs/pagefind';
@@ -150,9 +185,35 @@ export async function fetchFragment(hash: string): Promise<PageRecord> {
       ...Object.fromEntries(Object.entries(fragment.meta).filter(([k]) => k !== 'title')),
     },
     fetchedAt: new Date().toISOString(),
+    fragmentHash: hash,
   };
 }
 
+export function formatChanges(result: FetchResult): string {
+  const { added, updated, removed } = result.changes;
+  const resumed =
+    result.resumedPages > 0 ? `, ${result.resumedPages} resumed from an interrupted refresh` : '';
+  const pending = result.pendingPages > 0 ? `, ${result.pendingPages} not fetched yet` : '';
+  const kept = result.keptPages > 0 ? `; ${result.keptPages} kept their previous version` : '';
+  return `${added} added, ${updated} updated, ${removed} removed, ${result.unchangedPages} unchanged (${result.fetchedPages} fragments downloaded${resumed}${pending})${kept}`;
+}
+
+/** Pages and refresh stats of the current database; none when there is none or it cannot be read. */
+async function readExisting(
+  dbPath: string
+): Promise<{ pages: PageRecord[]; stats: RefreshStats | undefined }> {
+  try {
+    const store = await createDatabase(dbPath);
+    try {
+      return { pages: await getAllPageRecords(store), stats: readRefreshStats(store.metadata) };
+    } finally {
+      closeDatabase(store);
+    }
+  } catch {
+    return { pages: [], stats: undefined };
+  }
+}
+
 async function withConcurrencyLimit<T>(
   tasks: Array<() => Promise<T>>,
   limit: number
@@ -196,7 +257,26 @@ async function withConcurrencyLimit<T>(
   });
 }
 
-export async function fetchAllDocs(dbPath: string): Promise<FetchResult> {
+/**
+ * Refresh the docs database from Pagefind. Fragment file names are content hashes, so pages whose
+ * hash is already in the database are kept as they are and only new hashes are downloaded; pages
+ * whose hash is no longer listed are dropped, unless a download failed: a failed fragment cannot be
+ * matched to its page, so previous versions are kept then. `full` downloads everything.
+ *
+ * Fetched pages are checkpointed to a journal next to the database, which the next run resumes
+ * from if this one is interrupted. The database is only replaced once every fragment has been
+ * tried, or with `acceptPartial`; the journal is removed after that.
+ */
+export async function fetchAllDocs(
+  dbPath: string,
+  options: FetchOptions = {}
+): Promise<FetchResult> {
+  const startedAt = new Date();
+  // Pages an interrupted refresh already fetched.
+  const journaled = await readJournal(dbPath);
+  if (options.acceptPartial && journaled.size === 0) {
+    throw new Error(NO_INTERRUPTED_REFRESH_MESSAGE);
+  }
   const entry = await fetchEntryPoint();
 
   const langKey = Object.keys(entry.languages)[0];
@@ -206,44 +286,100 @@ export async function fetchAllDocs(dbPath: string): Promise<FetchResult> {
 
   const langHash = entry.languages[langKey].hash;
   const pageHashes = await fetchAndParseMeta(langHash);
+  const { pages: existing, stats: existingStats } = await readExisting(dbPath);
+
+  const byHash = new Map<string, PageRecord>();
+  if (!options.full) {
+    for (const page of existing) if (page.fragmentHash) byHash.set(page.fragmentHash, page);
+  }
+  const reused = pageHashes.filter((hash) => byHash.has(hash)).map((hash) => byHash.get(hash)!);
+  const newHashes = pageHashes.filter((hash) => !byHash.has(hash));
+
+  const resumed = newHashes.filter((hash) => journaled.has(hash)).map((h) => journaled.get(h)!);
+  const remaining = newHashes.filter((hash) => !journaled.has(hash));
+  const toFetch = options.acceptPartial ? [] : remaining;
+  if (resumed.length > 0) {
+    // eslint-disable-next-line no-console
+    console.log(`Resuming: ${resumed.length} pages were fetched by an interrupted refresh.`);
+  }
 
   const totalPages = pageHashes.length;
   const fetchedRecords: PageRecord[] = [];
   const failedUrls: string[] = [];
   let done = 0;
 
-  const tasks = pageHashes.map(
+  await fs.mkdir(path.dirname(dbPath), { recursive: true });
+  const journal = openJournal(dbPath);
+  const tasks = toFetch.map(
     (hash) => () =>
       fetchFragment(hash).then((record) => {
+        journal.append(record);
         done++;
-        if (done % BATCH_SIZE === 0 || done === totalPages) {
+        if (done % BATCH_SIZE === 0 || done === toFetch.length) {
           // eslint-disable-next-line no-console
-          console.log(`Fetched ${done}/${totalPages} pages...`);
+          console.log(`Fetched ${done}/${toFetch.length} pages...`);
         }
         return record;
       })
   );
 
   const results = await withConcurrencyLimit(tasks, DEFAULT_CONCURRENCY);
+  await journal.flush();
 
   for (let i = 0; i < results.length; i++) {
     const result = results[i];
     if (result.status === 'fulfilled') {
       fetchedRecords.push(result.value);
     } else {
-      const url = `${PAGEFIND_BASE}/fragment/${pageHashes[i]}.pf_fragment`;
+      const url = `${PAGEFIND_BASE}/fragment/${toFetch[i]}.pf_fragment`;
       failedUrls.push(url);
       // eslint-disable-next-line no-console
       console.log(`[ERROR] Failed to fetch ${url}: ${result.reason.message}`);
     }
   }
 
-  await writeParquet(fetchedRecords, dbPath);
+  const previousContent = new Map(existing.map((p) => [p.url, p.content]));
+  const newRecords = [...resumed, ...fetchedRecords];
+  const kept: PageRecord[] = [];
+  if (options.acceptPartial || failedUrls.length > 0) {
+    // Pages whose new fragment was not fetched keep their previous version. Pages dropped from the
+    // docs cannot be told apart from those, so they stay until the next complete refresh.
+    const urls = new Set([...reused, ...newRecords].map((p) => p.url));
+    for (const page of existing) if (!urls.has(page.url)) kept.push(page);
+  }
+  const records = [...reused, ...newRecords, ...kept];
+  const currentUrls = new Set(records.map((p) => p.url));
+  const changes = {
+    added: newRecords.filter((p) => !previousContent.has(p.url)).length,
+    updated: newRecords.filter(
+      (p) => previousContent.has(p.url) && previousContent.get(p.url) !== p.content
+    ).length,
+    removed: [...previousContent.keys()].filter((url) => !currentUrls.has(url)).length,
+  };
+
+  await rotateSnapshot(dbPath);
+  await writeParquet(records, dbPath, {
+    // A partial result is not a refresh: its age and failures stay those of the last complete one.
+    stats: options.acceptPartial
+      ? existingStats
+      : { fetchedAt: startedAt.toISOString(), totalPages, failedPages: failedUrls.length },
+  });
+  await removeJournal(dbPath);
+
+  const snapshotPath = options.snapshots
+    ? await writeDatedSnapshot(dbPath, startedAt.toISOString().slice(0, 10), options.snapshots.keep)
+    : undefined;
 
   return {
     totalPages,
     fetchedPages: fetchedRecords.length,
+    resumedPages: resumed.length,
+    pendingPages: options.acceptPartial ? remaining.length : 0,
+    keptPages: kept.length,
+    unchangedPages: reused.length + newRecords.length - changes.added - changes.updated,
+    changes,
     failedUrls,
     dbPath,
+    snapshotPath,
   };
 }
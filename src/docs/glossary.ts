@@ -0,0 +1,208 @@
+import type { PageText } from './db.ts';
+import { tokenize } from './tokenize.ts';
+
+export type GlossarySource = {
+  /** Page URL, or the summary file name for hand-written definitions. */
+  ref: string;
+  title: string;
+};
+
+export type GlossaryDefinition = {
+  text: string;
+  source: GlossarySource;
+};
+
+export type GlossaryEntry = {
+  term: string;
+  aliases: string[];
+  definitions: GlossaryDefinition[];
+};
+
+export type Glossary = {
+  entries: GlossaryEntry[];
+  /** Normalized term or alias → entry. */
+  byKey: Map<string, GlossaryEntry>;
+};
+
+export type GlossaryLookup = { entry: GlossaryEntry } | { entry: null; suggestions: string[] };
+
+export const SUMMARY_SOURCE: GlossarySource = {
+  ref: 'data/llm-summary.md',
+  title: 'Core Terminology',
+};
+
+const TERMINOLOGY_HEADING = '## Core Terminology';
+const TERM_LINE_RE = /^\*\*([^*]+?):\*\*\s+(.+)$/;
+const DEFINITION_RE =
+  /^(?:(?:an?|the)\s+)?([\p{L}\p{N}][\p{L}\p{N} _-]{0,60}?)(?:\s+\(([^)]{1,40})\))?\s+(?:is|are)\s+(?:an?|the|one)\s/iu;
+const MAX_SENTENCE_CHARS = 400;
+const MAX_MINED_DEFINITIONS = 3;
+const MAX_SUGGESTIONS = 5;
+
+/** Lookup key shared by terms, aliases and queries: "Object Types" and "object type" are equal. */
+export function termKey(term: string): string {
+  return tokenize(term).join(' ');
+}
+
+/**
+ * Split a glossary heading into a display term and aliases:
+ * "OSDK (Ontology SDK)" → OSDK + Ontology SDK; "Incremental pipeline / transform" → both phrases.
+ */
+export function parseTermName(raw: string): { term: string; aliases: string[] } {
+  const aliases: string[] = [];
+  let name = raw.trim();
+
+  const paren = /^(.+?)\s*\(([^)]+)\)$/.exec(name);
+  if (paren) {
+    name = paren[1].trim();
+    aliases.push(paren[2].trim());
+  }
+
+  const parts = name.split(/\s*\/\s*/).filter(Boolean);
+  if (parts.length > 1) {
+    const head = parts[0];
+    const prefix = head.includes(' ') ? head.slice(0, head.lastIndexOf(' ') + 1) : '';
+    for (const part of parts.slice(1)) {
+      aliases.push(part.includes(' ') ? part : `${prefix}${part}`);
+    }
+    name = head;
+  }
+
+  return { term: name, aliases };
+}
+
+function addEntry(glossary: Glossary, entry: GlossaryEntry): void {
+  glossary.entries.push(entry);
+  for (const name of [entry.term, ...entry.aliases]) {
+    const key = termKey(name);
+    if (key && !glossary.byKey.has(key)) glossary.byKey.set(key, entry);
+  }
+}
+
+/** Parse `**Term:** definition` lines from the "Core Terminology" section of the summary. */
+export function parseTerminology(markdown: string): GlossaryEntry[] {
+  const start = markdown.indexOf(TERMINOLOGY_HEADING);
+  if (start === -1) return [];
+  const rest = markdown.slice(start + TERMINOLOGY_HEADING.length);
+  const end = rest.search(/^## /m);
+  const section = end === -1 ? rest : rest.slice(0, end);
+
+  const entries: GlossaryEntry[] = [];
+  for (const line of section.split('\n')) {
+    const match = TERM_LINE_RE.exec(line.trim());
+    if (!match) continue;
+    const { term, aliases } = parseTermName(match[1]);
+    entries.push({
+      term,
+      aliases,
+      definitions: [{ text: match[2].trim(), source: SUMMARY_SOURCE }],
+    });
+  }
+  return entries;
+}
+
+function* sentences(content: string): Generator<string> {
+  for (const line of content.split(/\n+/)) {
+    const text = line.replace(/^[#>*\-\s]+/, '').trim();
+    if (!text) continue;
+    for (const sentence of text.split(/(?<=[.!?])\s+(?=[A-Z])/)) {
+      if (sentence.length <= MAX_SENTENCE_CHARS) yield sentence.trim();
+    }
+  }
+}
+
+/**
+ * Find "An X is a ..." sentences whose subject is the page's own title or an existing glossary
+ * term, so only pages actually defining a concept contribute.
+ */
+export function mineDefinitions(
+  pages: PageText[],
+  knownKeys: Set<string>
+): Array<{ term: string; alias: string | null; definition: GlossaryDefinition }> {
+  const mined: Array<{ term: string; alias: string | null; definition: GlossaryDefinition }> = [];
+  for (const page of pages) {
+    const titleKey = termKey(page.title);
+    const seen = new Set<string>();
+    for (const sentence of sentences(page.content)) {
+      const match = DEFINITION_RE.exec(sentence);
+      if (!match) continue;
+
+      const subject = match[1].trim();
+      const key = termKey(subject);
+      const aliasKey = match[2] ? termKey(match[2]) : '';
+      const known = [key, aliasKey].some((k) => k && (k === titleKey || knownKeys.has(k)));
+      if (!key || !known || seen.has(key)) continue;
+
+      seen.add(key);
+      mined.push({
+        term: subject,
+        alias: match[2]?.trim() ?? null,
+        definition: { text: sentence, source: { ref: page.url, title: page.title } },
+      });
+    }
+  }
+  return mined;
+}
+
+/**
+ * Build the glossary: hand-written terms from the summary first, then definitions mined from the
+ * docs, attached to a matching term or added as new entries.
+ */
+export function buildGlossary(summaryMarkdown: string | null, pages: PageText[]): Glossary {
+  const glossary: Glossary = { entries: [], byKey: new Map() };
+  for (const entry of parseTerminology(summaryMarkdown ?? '')) addEntry(glossary, entry);
+
+  const knownKeys = new Set(glossary.byKey.keys());
+  for (const { term, alias, definition } of mineDefinitions(pages, knownKeys)) {
+    const existing =
+      glossary.byKey.get(termKey(term)) ?? (alias ? glossary.byKey.get(termKey(alias)) : undefined);
+    if (existing) {
+      const mined = existing.definitions.filter((d) => d.source.ref !== SUMMARY_SOURCE.ref);
+      if (mined.length < MAX_MINED_DEFINITIONS) existing.definitions.push(definition);
+      if (alias && !glossary.byKey.has(termKey(alias))) {
+        existing.aliases.push(alias);
+        glossary.byKey.set(termKey(alias), existing);
+      }
+      continue;
+    }
+    addEntry(glossary, { term, aliases: alias ? [alias] : [], definitions: [definition] });
+  }
+
+  return glossary;
+}
+
+export function lookupTerm(glossary: Glossary, query: string): GlossaryLookup {
+  const key = termKey(query);
+  const entry = key ? glossary.byKey.get(key) : undefined;
+  if (entry) return { entry };
+
+  const words = new Set(key.split(' ').filter(Boolean));
+  const scored: Array<{ term: string; score: number }> = [];
+  for (const candidate of glossary.entries) {
+    const candidateWords = termKey(candidate.term).split(' ');
+    const overlap = candidateWords.filter((w) => words.has(w)).length;
+    if (overlap > 0) scored.push({ term: candidate.term, score: overlap / candidateWords.length });
+  }
+  scored.sort((a, b) => b.score - a.score || a.term.localeCompare(b.term));
+  return { entry: null, suggestions: scored.slice(0, MAX_SUGGESTIONS).map((s) => s.term) };
+}
+
+export function formatDefinition(entry: GlossaryEntry): string {
+  const aka = entry.aliases.length > 0 ? ` (also: ${entry.aliases.join(', ')})` : '';
+  const blocks = entry.definitions.map((d) => {
+    const source =
+      d.source.ref === SUMMARY_SOURCE.ref
+        ? `${d.source.ref} — ${d.source.title}`
+        : `${d.source.title} (${d.source.ref})`;
+    return `${d.text}\n  Source: ${source}`;
+  });
+  return `${entry.term}${aka}\n\n${blocks.join('\n\n')}`;
+}
+
+export function formatUnknownTerm(query: string, suggestions: string[]): string {
+  const lines = [`No glossary entry for "${query}". Try search_docs for a full-text search.`];
+  if (suggestions.length > 0) {
+    lines.push('', 'Related terms:', ...suggestions.map((s) => `- ${s}`));
+  }
+  return lines.join('\n');
+}
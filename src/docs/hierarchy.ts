@@ -0,0 +1,131 @@
+import { getAllPages, type PageListing, type ParquetStore } from './db.ts';
+import { normalizeDocUrl } from './resolve.ts';
+
+/**
+ * A node in the URL hierarchy. Nodes exist for every path prefix of every page; `page` is set when
+ * a documentation page lives exactly at that path.
+ */
+export type DocTreeNode = {
+  segment: string;
+  path: string;
+  page: PageListing | null;
+  /** Pages at or below this node. */
+  pageCount: number;
+  children: Map<string, DocTreeNode>;
+};
+
+function createNode(segment: string, path: string): DocTreeNode {
+  return { segment, path, page: null, pageCount: 0, children: new Map() };
+}
+
+export function buildDocTree(pages: PageListing[]): DocTreeNode {
+  const root = createNode('', '/');
+  for (const page of pages) {
+    const segments = normalizeDocUrl(page.url).split('/').filter(Boolean);
+    let node = root;
+    node.pageCount++;
+    for (const segment of segments) {
+      let child = node.children.get(segment);
+      if (!child) {
+        child = createNode(segment, `${node.path}${segment}/`);
+        node.children.set(segment, child);
+      }
+      child.pageCount++;
+      node = child;
+    }
+    if (!node.page) node.page = page;
+  }
+  return root;
+}
+
+/** Nodes from the top-level section down to `url`, or null when the path is not in the tree. */
+export function treePath(root: DocTreeNode, url: string): DocTreeNode[] | null {
+  const nodes: DocTreeNode[] = [];
+  let node: DocTreeNode | undefined = root;
+  for (const segment of normalizeDocUrl(url).split('/').filter(Boolean)) {
+    node = node.children.get(segment);
+    if (!node) return null;
+    nodes.push(node);
+  }
+  return nodes;
+}
+
+export function findTreeNode(root: DocTreeNode, url: string): DocTreeNode | null {
+  const path = treePath(root, url);
+  if (!path) return null;
+  return path.length > 0 ? path[path.length - 1] : root;
+}
+
+function sortedChildren(node: DocTreeNode): DocTreeNode[] {
+  return Array.from(node.children.values()).sort((a, b) => a.segment.localeCompare(b.segment));
+}
+
+function formatNodeLine(node: DocTreeNode, indent: string): string {
+  const below = node.pageCount - (node.page ? 1 : 0);
+  const count = below > 0 ? ` [${below} pages below]` : '';
+  const title = node.page ? ` — ${node.page.title} (${node.page.url})` : '';
+  return `${indent}- ${node.segment}/${title}${count}`;
+}
+
+/**
+ * Render the subtree under `node` down to `depth` levels. Deeper levels are collapsed into the
+ * "pages below" counts so each call stays small.
+ */
+export function formatDocTree(node: DocTreeNode, depth: number): string {
+  const lines: string[] = [];
+  function walk(current: DocTreeNode, level: number): void {
+    for (const child of sortedChildren(current)) {
+      lines.push(formatNodeLine(child, '  '.repeat(level)));
+      if (level + 1 < depth) walk(child, level + 1);
+    }
+  }
+  walk(node, 0);
+  return lines.join('\n');
+}
+
+const docTrees = new WeakMap<ParquetStore, DocTreeNode>();
+
+export function getDocTree(store: ParquetStore): DocTreeNode {
+  let tree = docTrees.get(store);
+  if (!tree) {
+    tree = buildDocTree(getAllPages(store));
+    docTrees.set(store, tree);
+  }
+  return tree;
+}
+
+function describeNode(node: DocTreeNode): string {
+  const below = node.pageCount - (node.page ? 1 : 0);
+  const count = below > 0 ? ` [${below} pages below]` : '';
+  if (node.page) return `${node.page.title} (${node.page.url})${count}`;
+  return `${node.path} (section, no page)${count}`;
+}
+
+function formatNodeList(label: string, nodes: DocTreeNode[]): string {
+  if (nodes.length === 0) return `${label}: none`;
+  return `${label} (${nodes.length}):\n${nodes.map((n) => `- ${describeNode(n)}`).join('\n')}`;
+}
+
+/**
+ * Sidebar-style view of one position in the hierarchy: breadcrumb, parent, children and siblings.
+ */
+export function formatBrowse(root: DocTreeNode, path: DocTreeNode[]): string {
+  const node = path.length > 0 ? path[path.length - 1] : root;
+  const parent = path.length > 1 ? path[path.length - 2] : path.length === 1 ? root : null;
+
+  const breadcrumb = path.map((n) => (n.page ? n.page.title : `${n.segment}/`)).join(' › ');
+  const lines: string[] = [
+    `Location: ${describeNode(node)}`,
+    `Breadcrumb: ${breadcrumb || '/'}`,
+    `Parent: ${parent === null ? 'none' : parent === root ? '/ (docs root)' : describeNode(parent)}`,
+    '',
+    formatNodeList('Children', sortedChildren(node)),
+  ];
+
+  if (parent) {
+    const siblings = sortedChildren(parent).filter((n) => n !== node);
+    lines.push('', formatNodeList('Siblings', siblings));
+  }
+
+  return lines.join('\n');
+}
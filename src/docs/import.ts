@@ -0,0 +1,99 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { migrateDocsDatabase, type MigrationResult } from './migrate.ts';
+import { rotateSnapshot } from './snapshots.ts';
+import { formatValidation, validateDocsFile, type ValidationReport } from './validate.ts';
+
+export type ImportResult =
+  | {
+      ok: true;
+      report: ValidationReport;
+      checksum: string;
+      /** Schema version of a bundle written by an older plugin, upgraded once installed. */
+      upgradedFrom: number | null;
+    }
+  | { ok: false; error: string };
+
+const SHA256_RE = /^[0-9a-f]{64}$/;
+
+export function sha256Hex(data: ArrayBuffer): string {
+  return createHash('sha256').update(new Uint8Array(data)).digest('hex');
+}
+
+/** Accept `sha256:<hex>` or bare hex, as printed by `sha256sum` and release pages. */
+export function parseChecksum(value: string): string | null {
+  const hex = value
+    .trim()
+    .toLowerCase()
+    .replace(/^sha256:/, '');
+  return SHA256_RE.test(hex) ? hex : null;
+}
+
+/** Expected checksum from a `<bundle>.sha256` file next to the bundle, if there is one. */
+async function readChecksumFile(bundlePath: string): Promise<string | null> {
+  try {
+    const text = await fs.readFile(`${bundlePath}.sha256`, 'utf8');
+    return parseChecksum(text.split(/\s+/)[0] ?? '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a prebuilt docs bundle and install it as the docs database. The checksum is checked
+ * against `expectedChecksum`, or else a `<bundle>.sha256` file when present. A copy is upgraded
+ * first if an older plugin wrote it; then the current database becomes the previous snapshot and
+ * the copy is renamed into place, so readers never see a partial or outdated copy. The caller
+ * holds the docs lock.
+ */
+export async function importDocsBundle(
+  bundlePath: string,
+  dbPath: string,
+  expectedChecksum: string | null = null
+): Promise<ImportResult> {
+  if (!(await Bun.file(bundlePath).exists())) {
+    return { ok: false, error: `File not found: ${bundlePath}` };
+  }
+  const file = await Bun.file(bundlePath).arrayBuffer();
+
+  const checksum = sha256Hex(file);
+  const expected = expectedChecksum ?? (await readChecksumFile(bundlePath));
+  if (expected !== null && expected !== checksum) {
+    return {
+      ok: false,
+      error: `Checksum mismatch for ${bundlePath}: expected sha256 ${expected}, got ${checksum}.`,
+    };
+  }
+
+  const report = await validateDocsFile(file);
+  if (!report.ok) {
+    return {
+      ok: false,
+      error: `${bundlePath} is not a valid docs bundle:\n${formatValidation(report)}`,
+    };
+  }
+
+  await fs.mkdir(path.dirname(dbPath), { recursive: true });
+  const tmpPath = `${dbPath}.${process.pid}.tmp`;
+  await fs.copyFile(bundlePath, tmpPath);
+  let migration: MigrationResult;
+  try {
+    migration = await migrateDocsDatabase(tmpPath);
+  } catch (error) {
+    await fs.rm(tmpPath, { force: true });
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      ok: false,
+      error: `Could not upgrade ${bundlePath} to the current docs schema: ${message}. The database was left unchanged.`,
+    };
+  }
+  await rotateSnapshot(dbPath);
+  await fs.rename(tmpPath, dbPath);
+  return {
+    ok: true,
+    report,
+    checksum,
+    upgradedFrom: migration.migrated ? migration.from : null,
+  };
+}
@@ -0,0 +1,82 @@
+import fs from 'node:fs/promises';
+import type { PageRecord } from './db.ts';
+import type { LockOwner } from './lock.ts';
+
+/**
+ * Checkpoint of a running refresh: one JSON page record per line, appended as each fragment is
+ * fetched, so a refresh interrupted by sleep or a restart resumes instead of starting over.
+ * Records are keyed by fragment hash, which names the content, so they stay valid even if the
+ * docs index changed in between.
+ */
+export type Journal = {
+  append: (page: PageRecord) => void;
+  /** Wait for the appends so far to reach the file. */
+  flush: () => Promise<void>;
+};
+
+export const INTERRUPTED_REFRESH_MESSAGE =
+  'A refresh was interrupted before it finished. Run /refresh-docs to resume it, or /refresh-docs --accept-partial to keep the pages it fetched and the previous versions of the rest.';
+
+export const NO_INTERRUPTED_REFRESH_MESSAGE =
+  'There is no interrupted refresh to accept. Run /refresh-docs to refresh the documentation.';
+
+/** For the journal of a refresh that is still running, e.g. in another OpenCode session. */
+export function formatRefreshInProgress(owner: LockOwner): string {
+  return `A refresh by process ${owner.pid} (since ${owner.acquiredAt}) is in progress; the tools keep reading the current database until it finishes.`;
+}
+
+/** `data/docs.parquet` → `data/docs.parquet.journal` */
+export function journalPath(dbPath: string): string {
+  return `${dbPath}.journal`;
+}
+
+export async function hasJournal(dbPath: string): Promise<boolean> {
+  return Bun.file(journalPath(dbPath)).exists();
+}
+
+function isJournaledPage(value: unknown): value is PageRecord & { fragmentHash: string } {
+  if (!value || typeof value !== 'object') return false;
+  const page = value as Record<string, unknown>;
+  return (
+    typeof page.url === 'string' &&
+    typeof page.content === 'string' &&
+    typeof page.fragmentHash === 'string'
+  );
+}
+
+/** Pages checkpointed by an earlier refresh, by fragment hash. A line cut short is skipped. */
+export async function readJournal(dbPath: string): Promise<Map<string, PageRecord>> {
+  const pages = new Map<string, PageRecord>();
+  let text: string;
+  try {
+    text = await fs.readFile(journalPath(dbPath), 'utf8');
+  } catch {
+    return pages;
+  }
+  for (const line of text.split('\n')) {
+    if (!line) continue;
+    try {
+      const page: unknown = JSON.parse(line);
+      if (isJournaledPage(page)) pages.set(page.fragmentHash, page);
+    } catch {
+      // Partially written when the refresh was interrupted.
+    }
+  }
+  return pages;
+}
+
+/** Append pages to the journal one at a time, so concurrent fetches never interleave lines. */
+export function openJournal(dbPath: string): Journal {
+  const filePath = journalPath(dbPath);
+  let pending: Promise<void> = Promise.resolve();
+  return {
+    append(page) {
+      pending = pending.then(() => fs.appendFile(filePath, `${JSON.stringify(page)}\n`));
+    },
+    flush: () => pending,
+  };
+}
+
+export async function removeJournal(dbPath: string): Promise<void> {
+  await fs.rm(journalPath(dbPath), { force: true });
+}
@@ -0,0 +1,236 @@
+import fs from 'node:fs/promises';
+import { parquetMetadata, parquetReadObjects } from 'hyparquet';
+import { parquetWriteBuffer } from 'hyparquet-writer';
+import { getAllPageContents, type PageText, type ParquetStore } from './db.ts';
+import { normalizeDocUrl } from './resolve.ts';
+import { sidecarPath, type SourceFingerprint } from './sidecar.ts';
+
+/** How a link was found: an explicit URL/path in the text, or a "see <Page title>" reference. */
+export type LinkKind = 'url' | 'title';
+
+export type LinkEdge = {
+  source: string;
+  target: string;
+  kind: LinkKind;
+};
+
+export type LinkGraph = {
+  outgoing: Map<string, LinkEdge[]>;
+  incoming: Map<string, LinkEdge[]>;
+};
+
+export type LinkDirection = 'outgoing' | 'incoming' | 'both';
+
+export const LINK_TABLE_VERSION = 1;
+
+const MARKDOWN_LINK_RE = /\]\(([^)\s]+)\)/g;
+const ABSOLUTE_URL_RE = /https?:\/\/(?:www\.)?palantir\.com\/docs\/[^\s)\]"'<>]*/gi;
+const PATH_RE = /(?<![\w.:/])\/(?:[a-z0-9][\w.-]*\/)+[\w.-]*/gi;
+const SEE_RE = /\b[Ss]ee(?:\s+also)?(?:\s+the)?\s+["“]?/g;
+const MIN_TITLE_LENGTH = 4;
+
+type TitleMatcher = Map<string, Array<{ title: string; url: string }>>;
+
+function firstWord(text: string): string {
+  return /^[\p{L}\p{N}_-]+/u.exec(text)?.[0] ?? '';
+}
+
+/**
+ * Index unambiguous page titles by their first word, longest titles first, so "see X" references
+ * can be matched without scanning every title.
+ */
+function buildTitleMatcher(pages: PageText[]): TitleMatcher {
+  const byTitle = new Map<string, string | null>();
+  for (const page of pages) {
+    const key = page.title.trim().toLowerCase();
+    if (key.length < MIN_TITLE_LENGTH) continue;
+    byTitle.set(key, byTitle.has(key) ? null : page.url);
+  }
+
+  const matcher: TitleMatcher = new Map();
+  for (const [title, url] of byTitle) {
+    if (url === null) continue;
+    const word = firstWord(title);
+    const list = matcher.get(word) ?? [];
+    list.push({ title, url });
+    matcher.set(word, list);
+  }
+  for (const list of matcher.values()) list.sort((a, b) => b.title.length - a.title.length);
+  return matcher;
+}
+
+function matchTitleAt(text: string, matcher: TitleMatcher): string | null {
+  const lower = text.slice(0, 200).toLowerCase();
+  const candidates = matcher.get(firstWord(lower));
+  if (!candidates) return null;
+  for (const { title, url } of candidates) {
+    if (!lower.startsWith(title)) continue;
+    const next = lower.charAt(title.length);
+    if (next === '' || /[^\p{L}\p{N}_-]/u.test(next)) return url;
+  }
+  return null;
+}
+
+export function extractLinks(
+  page: PageText,
+  urlIndex: Map<string, string>,
+  titles: TitleMatcher
+): LinkEdge[] {
+  const edges = new Map<string, LinkEdge>();
+  function add(target: string | null | undefined, kind: LinkKind): void {
+    if (!target || target === page.url || edges.has(target)) return;
+    edges.set(target, { source: page.url, target, kind });
+  }
+
+  const text = page.content;
+  const candidates: string[] = [];
+  for (const m of text.matchAll(MARKDOWN_LINK_RE)) candidates.push(m[1]);
+  for (const m of text.matchAll(ABSOLUTE_URL_RE)) candidates.push(m[0]);
+  for (const m of text.matchAll(PATH_RE)) candidates.push(m[0]);
+  for (const candidate of candidates) {
+    add(urlIndex.get(normalizeDocUrl(candidate.replace(/[.,;:]+$/, ''))), 'url');
+  }
+
+  for (const m of text.matchAll(SEE_RE)) {
+    add(matchTitleAt(text.slice(m.index + m[0].length), titles), 'title');
+  }
+
+  return Array.from(edges.values());
+}
+
+export function buildLinkEdges(pages: PageText[]): LinkEdge[] {
+  const urlIndex = new Map<string, string>();
+  for (const page of pages) {
+    const key = normalizeDocUrl(page.url);
+    if (!urlIndex.has(key)) urlIndex.set(key, page.url);
+  }
+  const titles = buildTitleMatcher(pages);
+  return pages.flatMap((page) => extractLinks(page, urlIndex, titles));
+}
+
+export function buildLinkGraph(edges: LinkEdge[]): LinkGraph {
+  const outgoing = new Map<string, LinkEdge[]>();
+  const incoming = new Map<string, LinkEdge[]>();
+  for (const edge of edges) {
+    const out = outgoing.get(edge.source) ?? [];
+    out.push(edge);
+    outgoing.set(edge.source, out);
+    const inc = incoming.get(edge.target) ?? [];
+    inc.push(edge);
+    incoming.set(edge.target, inc);
+  }
+  return { outgoing, incoming };
+}
+
+function fingerprintMetadata(source: SourceFingerprint): Array<{ key: string; value: string }> {
+  return [
+    { key: 'links_version', value: String(LINK_TABLE_VERSION) },
+    { key: 'source_size', value: String(source.size) },
+    { key: 'source_mtime_ms', value: String(source.mtimeMs) },
+  ];
+}
+
+export async function writeLinkTable(
+  edges: LinkEdge[],
+  outputPath: string,
+  source: SourceFingerprint
+): Promise<void> {
+  const buffer = parquetWriteBuffer({
+    columnData: [
+      { name: 'source', data: edges.map((e) => e.source), type: 'STRING' },
+      { name: 'target', data: edges.map((e) => e.target), type: 'STRING' },
+      { name: 'kind', data: edges.map((e) => e.kind), type: 'STRING' },
+    ],
+    kvMetadata: fingerprintMetadata(source),
+  });
+  const tmp = `${outputPath}.tmp.${process.pid}.${Date.now()}`;
+  await Bun.write(tmp, buffer);
+  await fs.rename(tmp, outputPath);
+}
+
+/**
+ * Read the link table if it exists and was built from this exact copy of the docs database;
+ * otherwise return null.
+ */
+export async function readLinkTable(
+  tablePath: string,
+  source: SourceFingerprint
+): Promise<LinkEdge[] | null> {
+  let file: ArrayBuffer;
+  try {
+    file = await Bun.file(tablePath).arrayBuffer();
+  } catch {
+    return null;
+  }
+
+  try {
+    const kv = new Map(
+      (parquetMetadata(file).key_value_metadata ?? []).map((e) => [e.key, e.value])
+    );
+    const expected = fingerprintMetadata(source);
+    if (expected.some((e) => kv.get(e.key) !== e.value)) return null;
+
+    const rows = await parquetReadObjects({ file });
+    return rows.map((row) => ({
+      source: row.source as string,
+      target: row.target as string,
+      kind: row.kind as LinkKind,
+    }));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Load the link graph from the adjacency table next to the docs database, extracting links from
+ * page content and rewriting the table when it is missing or stale.
+ */
+export async function loadLinkGraph(store: ParquetStore, dbPath: string): Promise<LinkGraph> {
+  const tablePath = sidecarPath(dbPath, 'links', 'parquet');
+  // The fingerprint of the file the store opened, which the edges are extracted from.
+  const { source } = store;
+
+  const cached = await readLinkTable(tablePath, source);
+  if (cached) return buildLinkGraph(cached);
+
+  const edges = buildLinkEdges(await getAllPageContents(store));
+  try {
+    await writeLinkTable(edges, tablePath, source);
+  } catch {
+    // The table only saves re-extraction time; a read-only data directory is fine.
+  }
+  return buildLinkGraph(edges);
+}
+
+function formatEdges(
+  label: string,
+  edges: LinkEdge[],
+  pick: (e: LinkEdge) => string,
+  titles: Map<string, string>
+): string {
+  if (edges.length === 0) return `${label}: none`;
+  const lines = edges
+    .map((e) => {
+      const url = pick(e);
+      const via = e.kind === 'title' ? ' [via "see" reference]' : '';
+      return `- ${titles.get(url) ?? url} (${url})${via}`;
+    })
+    .sort((a, b) => a.localeCompare(b));
+  return `${label} (${edges.length}):\n${lines.join('\n')}`;
+}
+
+export function formatRelated(
+  graph: LinkGraph,
+  url: string,
+  direction: LinkDirection,
+  titles: Map<string, string>
+): string {
+  const blocks: string[] = [`Related pages for ${titles.get(url) ?? url} (${url}):`];
+  if (direction !== 'incoming') {
+    blocks.push(formatEdges('Links to', graph.outgoing.get(url) ?? [], (e) => e.target, titles));
+  }
+  if (direction !== 'outgoing') {
+    blocks.push(formatEdges('Linked from', graph.incoming.get(url) ?? [], (e) => e.source, titles));
+  }
+  return blocks.join('\n\n');
+}
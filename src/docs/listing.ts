@@ -0,0 +1,76 @@
+import type { PageListing } from './db.ts';
+import { describeFacetFilters, type FacetFilters } from './facets.ts';
+import { buildDocTree, findTreeNode, formatDocTree } from './hierarchy.ts';
+import { matchesPathPrefix, normalizeDocUrl } from './resolve.ts';
+
+export type ListFilters = {
+  pathPrefix?: string;
+  titleContains?: string;
+  /** Facet filters already applied by the caller; only used to describe the listing. */
+  filters?: FacetFilters;
+};
+
+export type ListOptions = ListFilters & {
+  page?: number;
+  pageSize?: number;
+  format?: 'list' | 'tree';
+  depth?: number;
+};
+
+export const DEFAULT_PAGE_SIZE = 200;
+export const MAX_PAGE_SIZE = 1000;
+export const DEFAULT_TREE_DEPTH = 1;
+
+export function filterPages(pages: PageListing[], filters: ListFilters): PageListing[] {
+  const needle = filters.titleContains?.trim().toLowerCase();
+  return pages.filter((p) => {
+    if (filters.pathPrefix && !matchesPathPrefix(p.url, filters.pathPrefix)) return false;
+    if (needle && !p.title.toLowerCase().includes(needle)) return false;
+    return true;
+  });
+}
+
+function describeFilters(filters: ListFilters): string {
+  const parts: string[] = [];
+  if (filters.pathPrefix) parts.push(`under ${filters.pathPrefix}`);
+  if (filters.titleContains) parts.push(`with title containing "${filters.titleContains}"`);
+  if (filters.filters && Object.keys(filters.filters).length > 0) {
+    parts.push(`with ${describeFacetFilters(filters.filters)}`);
+  }
+  return parts.length > 0 ? ` ${parts.join(' ')}` : '';
+}
+
+function formatList(pages: PageListing[], opts: ListOptions): string {
+  const pageSize = Math.min(Math.max(opts.pageSize ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+  const pageCount = Math.max(1, Math.ceil(pages.length / pageSize));
+  const pageNumber = Math.min(Math.max(opts.page ?? 1, 1), pageCount);
+  const start = (pageNumber - 1) * pageSize;
+  const slice = pages.slice(start, start + pageSize);
+
+  const header = `Available Palantir Foundry Documentation${describeFilters(opts)} (${pages.length} pages):`;
+  const lines = slice.map((p) => `- ${p.title} (${p.url})`);
+  if (pageCount === 1) return `${header}\n\n${lines.join('\n')}`;
+
+  const range = `Showing ${start + 1}-${start + slice.length} (page ${pageNumber} of ${pageCount}).`;
+  const next =
+    pageNumber < pageCount
+      ? ` Call list_all_docs with page=${pageNumber + 1} for more, or narrow with pathPrefix/titleContains.`
+      : '';
+  return `${header}\n\n${lines.join('\n')}\n\n${range}${next}`;
+}
+
+function formatTree(pages: PageListing[], opts: ListOptions): string {
+  const root = buildDocTree(pages);
+  const base = opts.pathPrefix ? normalizeDocUrl(opts.pathPrefix) : '/';
+  const node = findTreeNode(root, base);
+  const header = `Palantir Foundry Documentation tree${describeFilters(opts)} (${pages.length} pages):`;
+  if (!node || node.children.size === 0) return `${header}\n\n(no sections below ${base})`;
+
+  const depth = Math.max(opts.depth ?? DEFAULT_TREE_DEPTH, 1);
+  return `${header}\n\n${base}\n${formatDocTree(node, depth)}\n\nDrill down by calling list_all_docs with format="tree" and a deeper pathPrefix.`;
+}
+
+export function formatPageListing(pages: PageListing[], opts: ListOptions = {}): string {
+  const filtered = filterPages(pages, opts);
+  return opts.format === 'tree' ? formatTree(filtered, opts) : formatList(filtered, opts);
+}
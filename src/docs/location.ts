@@ -0,0 +1,59 @@
+import os from 'node:os';
+import path from 'node:path';
+
+export const CACHE_DIR_NAME = 'opencode-palantir';
+export const DOCS_FILENAME = 'docs.parquet';
+
+export type DocsLocation = {
+  path: string;
+  /** `config`: `palantir_docs.path`; `legacy`: an existing `data/docs.parquet`; `shared`: cache. */
+  source: 'config' | 'legacy' | 'shared';
+};
+
+/** `$XDG_CACHE_HOME/opencode-palantir`, or `~/.cache/opencode-palantir` when it is unset. */
+export function sharedCacheDir(env: Record<string, string | undefined> = process.env): string {
+  const xdg = env['XDG_CACHE_HOME'];
+  const base = xdg && path.isAbsolute(xdg) ? xdg : path.join(os.homedir(), '.cache');
+  return path.join(base, CACHE_DIR_NAME);
+}
+
+export function legacyDocsPath(worktree: string): string {
+  return path.join(worktree, 'data', DOCS_FILENAME);
+}
+
+export function expandHome(p: string): string {
+  return p === '~' || p.startsWith('~/') ? path.join(os.homedir(), p.slice(1)) : p;
+}
+
+/**
+ * A path as shown to the user: relative inside the worktree, `~/`-abbreviated inside the home
+ * directory (where the shared cache lives), absolute otherwise.
+ */
+export function displayPath(p: string, worktree: string, home = os.homedir()): string {
+  const inside = (dir: string): string | null => {
+    const relative = path.relative(dir, p);
+    const outside = relative.startsWith(`..${path.sep}`) || relative === '..';
+    return relative && !outside && !path.isAbsolute(relative) ? relative : null;
+  };
+  const inWorktree = inside(worktree);
+  if (inWorktree !== null) return inWorktree;
+  const inHome = inside(home);
+  return inHome !== null ? `~/${inHome}` : p;
+}
+
+/**
+ * Where this project reads and refreshes the docs database: the configured path (relative to the
+ * worktree), else a `data/docs.parquet` the project already has, else the per-user cache shared
+ * by every project.
+ */
+export async function resolveDocsLocation(
+  worktree: string,
+  configuredPath: string | null
+): Promise<DocsLocation> {
+  if (configuredPath) {
+    return { path: path.resolve(worktree, expandHome(configuredPath)), source: 'config' };
+  }
+  const legacy = legacyDocsPath(worktree);
+  if (await Bun.file(legacy).exists()) return { path: legacy, source: 'legacy' };
+  return { path: path.join(sharedCacheDir(), DOCS_FILENAME), source: 'shared' };
+}
@@ -0,0 +1,156 @@
+import { randomUUID } from 'node:crypto';
+import type { Stats } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export type LockOwner = {
+  pid: number;
+  acquiredAt: string;
+};
+
+// What the lock file holds. The token tells apart two acquisitions by one process in the same
+// millisecond.
+type LockRecord = LockOwner & { token: string };
+
+export type LockResult =
+  | { ok: true; release: () => Promise<void> }
+  | { ok: false; owner: LockOwner | null };
+
+const LOCK_POLL_MS = 100;
+// An unreadable lock file may be one another process has created but not written yet.
+const UNREADABLE_LOCK_GRACE_MS = 5000;
+
+/** `data/docs.parquet` → `data/docs.parquet.lock` */
+export function lockPath(dbPath: string): string {
+  return `${dbPath}.lock`;
+}
+
+async function readRecord(filePath: string): Promise<Partial<LockRecord> | null> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8')) as Partial<LockRecord>;
+  } catch {
+    return null;
+  }
+}
+
+function toOwner(record: Partial<LockRecord> | null): LockOwner | null {
+  if (typeof record?.pid !== 'number' || typeof record.acquiredAt !== 'string') return null;
+  return { pid: record.pid, acquiredAt: record.acquiredAt };
+}
+
+async function holdsLock(filePath: string, record: LockRecord): Promise<boolean> {
+  return (await readRecord(filePath))?.token === record.token;
+}
+
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user.
+    return (error as { code?: string }).code === 'EPERM';
+  }
+}
+
+/**
+ * Whether a lock is left over from a crashed refresh. A lock whose process is running is never
+ * stale, however old: a refresh over a slow connection can take a long time.
+ */
+function isStale(owner: LockOwner | null, stat: Stats): boolean {
+  if (owner) return !isAlive(owner.pid);
+  return Date.now() - stat.mtimeMs > UNREADABLE_LOCK_GRACE_MS;
+}
+
+/**
+ * What tells one lock file apart from any later one: its token, or for locks without one (written
+ * by earlier versions, or not written yet) its inode and mtime.
+ */
+function lockIdentity(record: Partial<LockRecord> | null, stat: Stats): string {
+  return record?.token ?? `${stat.ino}-${Math.round(stat.mtimeMs)}`;
+}
+
+/**
+ * Remove a stale lock so the caller can retry the exclusive create. Several sessions may find the
+ * same stale lock at once, so removing it takes a second lock named after that lock file: only one
+ * session creates it, and since a stale lock's owner is gone, nobody else can remove or replace
+ * the lock while it holds it. `identity` must come from the same read the lock was judged stale
+ * by. Returns false when another session is already removing it.
+ */
+async function removeStaleLock(filePath: string, identity: string): Promise<boolean> {
+  const breaker = `${filePath}.break-${identity}`;
+  try {
+    await fs.writeFile(breaker, String(process.pid), { flag: 'wx' });
+  } catch (error) {
+    if ((error as { code?: string }).code !== 'EEXIST') throw error;
+    // Left behind by a session that crashed while removing the lock.
+    const age = await fs.stat(breaker).then(
+      (b) => Date.now() - b.mtimeMs,
+      () => 0
+    );
+    if (age > UNREADABLE_LOCK_GRACE_MS) await fs.rm(breaker, { force: true });
+    return false;
+  }
+  try {
+    // Another session may have removed this lock and taken a new one since we read it.
+    const current = await fs.stat(filePath).catch(() => null);
+    if (current && lockIdentity(await readRecord(filePath), current) === identity) {
+      await fs.rm(filePath, { force: true });
+    }
+  } finally {
+    await fs.rm(breaker, { force: true });
+  }
+  return true;
+}
+
+/**
+ * Take the exclusive lock that guards writes to the docs database, which several OpenCode
+ * sessions may share. Locks left by dead processes are taken over. When another session holds
+ * it, retry for up to `waitMs` before giving up.
+ */
+export async function acquireDocsLock(dbPath: string, waitMs = 0): Promise<LockResult> {
+  const filePath = lockPath(dbPath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const deadline = Date.now() + waitMs;
+  const record: LockRecord = {
+    pid: process.pid,
+    acquiredAt: new Date().toISOString(),
+    token: randomUUID(),
+  };
+  const locked: LockResult = {
+    ok: true,
+    // Only remove the lock while it is still ours; a session that judged it stale may hold it now.
+    release: async () => {
+      if (await holdsLock(filePath, record)) await fs.rm(filePath, { force: true });
+    },
+  };
+
+  for (;;) {
+    try {
+      await fs.writeFile(filePath, JSON.stringify(record), { flag: 'wx' });
+      return locked;
+    } catch (error) {
+      if ((error as { code?: string }).code !== 'EEXIST') throw error;
+    }
+
+    const held = await readRecord(filePath);
+    const stat = await fs.stat(filePath).catch(() => null);
+    if (!stat) continue;
+    const holder = toOwner(held);
+    if (isStale(holder, stat) && (await removeStaleLock(filePath, lockIdentity(held, stat)))) {
+      continue;
+    }
+    if (Date.now() >= deadline) return { ok: false, owner: holder };
+    await new Promise((r) => setTimeout(r, LOCK_POLL_MS));
+  }
+}
+
+/** The process holding the docs lock, or null when it is free or left by a crashed refresh. */
+export async function readLockOwner(dbPath: string): Promise<LockOwner | null> {
+  const owner = toOwner(await readRecord(lockPath(dbPath)));
+  return owner && isAlive(owner.pid) ? owner : null;
+}
+
+export function formatLockHeld(owner: LockOwner | null): string {
+  const who = owner ? `process ${owner.pid} (since ${owner.acquiredAt})` : 'another process';
+  return `The documentation database is being updated by ${who}, probably another OpenCode session. Try again when it finishes.`;
+}
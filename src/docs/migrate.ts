@@ -0,0 +1,47 @@
+import { asyncBufferFromFile, parquetMetadataAsync, parquetReadObjects } from 'hyparquet';
+import { toPageRecord } from './db.ts';
+import { checkSchema, DOCS_SCHEMA_VERSION, readSchemaVersion } from './schema.ts';
+import { readRefreshStats, writeParquet } from './write-parquet.ts';
+
+type Row = Record<string, unknown>;
+
+export type MigrationResult =
+  | { migrated: false; version: number | null }
+  | { migrated: true; from: number; to: number };
+
+/**
+ * Row upgrades by the version they start from. A migration that adds a column fills it for the
+ * existing rows; rewriting the file with `writeParquet` applies the current layout.
+ */
+const MIGRATIONS: Record<number, (row: Row) => Row> = {
+  // Version 1 only changed the layout.
+  0: (row) => row,
+  // Unknown hashes; the next refresh fetches these pages again.
+  1: (row) => ({ ...row, fragment_hash: null }),
+};
+
+/** Whether the database was written with an older schema version. Only reads the footer. */
+export async function needsMigration(dbPath: string): Promise<boolean> {
+  const metadata = await parquetMetadataAsync(await asyncBufferFromFile(dbPath));
+  const version = readSchemaVersion(metadata);
+  return checkSchema(metadata) === null && version !== null && version < DOCS_SCHEMA_VERSION;
+}
+
+/**
+ * Upgrade a database written with an older schema version in place, keeping its refresh stats.
+ * Databases this plugin cannot read are left alone for `createDatabase` to report. The caller
+ * holds the docs lock.
+ */
+export async function migrateDocsDatabase(dbPath: string): Promise<MigrationResult> {
+  const file = await asyncBufferFromFile(dbPath);
+  const metadata = await parquetMetadataAsync(file);
+  const version = readSchemaVersion(metadata);
+  if (checkSchema(metadata) !== null || version === null || version >= DOCS_SCHEMA_VERSION) {
+    return { migrated: false, version };
+  }
+
+  let rows: Row[] = await parquetReadObjects({ file, metadata });
+  for (let v = version; v < DOCS_SCHEMA_VERSION; v++) rows = rows.map(MIGRATIONS[v]);
+  await writeParquet(rows.map(toPageRecord), dbPath, { stats: readRefreshStats(metadata) });
+  return { migrated: true, from: version, to: DOCS_SCHEMA_VERSION };
+}
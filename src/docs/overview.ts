@@ -0,0 +1,33 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+
+export type PlatformOverview = {
+  text: string;
+  /** Short content hash, so agents and logs can tell which revision of the overview they saw. */
+  version: string;
+  source: string;
+};
+
+export async function loadOverview(filePath: string): Promise<PlatformOverview | null> {
+  let text: string;
+  try {
+    text = await fs.readFile(filePath, 'utf8');
+  } catch {
+    return null;
+  }
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+
+  const version = createHash('sha256').update(trimmed).digest('hex').slice(0, 12);
+  return { text: trimmed, version, source: filePath };
+}
+
+export function formatOverviewContext(overview: PlatformOverview): string {
+  return [
+    `<foundry-platform-overview version="${overview.version}">`,
+    'Reference overview of Palantir Foundry. Use the docs tools (search_docs, get_doc_page) for details beyond it.',
+    '',
+    overview.text,
+    '</foundry-platform-overview>',
+  ].join('\n');
+}
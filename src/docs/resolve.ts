@@ -0,0 +1,150 @@
+import { getAllPages, type ParquetStore } from './db.ts';
+import { tokenize } from './tokenize.ts';
+
+export type UrlSuggestion = {
+  url: string;
+  title: string;
+  score: number;
+};
+
+export type ResolveResult = { url: string } | { url: null; suggestions: UrlSuggestion[] };
+
+export const DEFAULT_SUGGESTION_LIMIT = 5;
+export const CANONICAL_DOCS_BASE = 'https://www.palantir.com/docs';
+
+const DOCS_ORIGIN_RE = /^(?:https?:\/\/)?(?:www\.)?palantir\.com(?=\/|$)/i;
+const MIN_SUGGESTION_SCORE = 0.25;
+
+/**
+ * Canonical lookup key for a docs URL: origin, `/docs` prefix, query and fragment stripped;
+ * lowercased; single leading and trailing slash.
+ * `https://www.palantir.com/docs/Foundry/ontology/overview` → `/foundry/ontology/overview/`
+ */
+export function normalizeDocUrl(raw: string): string {
+  let p = raw.trim().replace(DOCS_ORIGIN_RE, '');
+  p = p.replace(/[?#].*$/, '');
+  p = `/${p}`.replace(/\/{2,}/g, '/');
+  p = p.replace(/^\/docs(?=\/|$)/i, '');
+  p = p.toLowerCase();
+  if (!p.endsWith('/')) p = `${p}/`;
+  return p;
+}
+
+/**
+ * Public palantir.com URL of a page.
+ * `/foundry/ontology/overview` → `https://www.palantir.com/docs/foundry/ontology/overview/`
+ */
+export function canonicalDocUrl(url: string): string {
+  return `${CANONICAL_DOCS_BASE}${normalizeDocUrl(url)}`;
+}
+
+/**
+ * Whether `url` falls under `prefix`, comparing normalized forms. A prefix without a trailing slash
+ * also matches partial segments (`/foundry/trans` matches `/foundry/transforms-python/`).
+ */
+export function matchesPathPrefix(url: string, prefix: string): boolean {
+  let p = normalizeDocUrl(prefix);
+  if (!prefix.trim().endsWith('/') && p !== '/') p = p.slice(0, -1);
+  return normalizeDocUrl(url).startsWith(p);
+}
+
+function segments(normalizedUrl: string): string[] {
+  return normalizedUrl.split('/').filter(Boolean);
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+}
+
+function stringSimilarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+}
+
+/**
+ * Similarity in [0, 1] between a requested URL and a known page, mixing shared leading path
+ * segments, overall segment overlap, closeness of the final segment, and query words in the title.
+ */
+export function scoreUrlMatch(query: string, candidateUrl: string, candidateTitle: string): number {
+  const q = segments(normalizeDocUrl(query));
+  const c = segments(normalizeDocUrl(candidateUrl));
+  if (q.length === 0 || c.length === 0) return 0;
+
+  let prefix = 0;
+  while (prefix < q.length && prefix < c.length && q[prefix] === c[prefix]) prefix++;
+  const prefixScore = prefix / Math.max(q.length, c.length);
+
+  const candidateSegments = new Set(c);
+  const overlapScore = q.filter((s) => candidateSegments.has(s)).length / q.length;
+
+  const leafScore = stringSimilarity(q[q.length - 1], c[c.length - 1]);
+
+  const queryWords = new Set(tokenize(q.join(' ').replace(/[-_]/g, ' ')));
+  const titleWords = new Set(tokenize(candidateTitle));
+  let titleHits = 0;
+  for (const w of queryWords) if (titleWords.has(w)) titleHits++;
+  const titleScore = queryWords.size > 0 ? titleHits / queryWords.size : 0;
+
+  return 0.3 * prefixScore + 0.2 * overlapScore + 0.3 * leafScore + 0.2 * titleScore;
+}
+
+const normalizedIndexes = new WeakMap<ParquetStore, Map<string, string>>();
+
+function normalizedIndex(store: ParquetStore): Map<string, string> {
+  let index = normalizedIndexes.get(store);
+  if (!index) {
+    index = new Map();
+    for (const page of getAllPages(store)) {
+      const key = normalizeDocUrl(page.url);
+      if (!index.has(key)) index.set(key, page.url);
+    }
+    normalizedIndexes.set(store, index);
+  }
+  return index;
+}
+
+export function suggestUrls(
+  store: ParquetStore,
+  raw: string,
+  limit = DEFAULT_SUGGESTION_LIMIT
+): UrlSuggestion[] {
+  const scored: UrlSuggestion[] = [];
+  for (const page of getAllPages(store)) {
+    const score = scoreUrlMatch(raw, page.url, page.title);
+    if (score >= MIN_SUGGESTION_SCORE) scored.push({ url: page.url, title: page.title, score });
+  }
+  scored.sort((a, b) => b.score - a.score || a.url.localeCompare(b.url));
+  return scored.slice(0, limit);
+}
+
+/**
+ * Map a user- or agent-supplied URL to a stored page URL: exact match first, then the normalized
+ * form. When neither matches, return the closest known pages instead.
+ */
+export function resolvePageUrl(store: ParquetStore, raw: string): ResolveResult {
+  if (store.urlToRow.has(raw)) return { url: raw };
+
+  const normalized = normalizedIndex(store).get(normalizeDocUrl(raw));
+  if (normalized) return { url: normalized };
+
+  return { url: null, suggestions: suggestUrls(store, raw) };
+}
+
+export function formatNotFound(raw: string, suggestions: UrlSuggestion[]): string {
+  if (suggestions.length === 0) return `Page not found: ${raw}`;
+  const lines = suggestions.map((s) => `- ${s.title} (${s.url})`);
+  return `Page not found: ${raw}\n\nDid you mean:\n${lines.join('\n')}`;
+}
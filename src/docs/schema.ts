@@ -0,0 +1,50 @@
+import type { FileMetaData } from 'hyparquet';
+
+/** Key-value metadata holding the schema version a database was written with. */
+export const SCHEMA_VERSION_KEY = 'palantir_docs.schema_version';
+
+/**
+ * Schema version `writeParquet` writes. Files without `SCHEMA_VERSION_KEY` predate versioning
+ * and count as version 0; `migrateDocsDatabase` upgrades them.
+ *
+ * - 0: the six columns below, in fetch order, uncompressed
+ * - 1: sorted by URL in compressed row groups with statistics
+ * - 2: adds `fragment_hash`, the Pagefind fragment a row was fetched from
+ */
+export const DOCS_SCHEMA_VERSION = 2;
+
+export const REQUIRED_COLUMNS = ['url', 'title', 'content', 'word_count', 'meta', 'fetched_at'];
+
+/** The schema version recorded in the file: 0 when absent, null when not a version number. */
+export function readSchemaVersion(metadata: FileMetaData): number | null {
+  const entry = metadata.key_value_metadata?.find((kv) => kv.key === SCHEMA_VERSION_KEY);
+  if (entry?.value === undefined) return 0;
+  const version = Number(entry.value);
+  return Number.isInteger(version) && version >= 0 ? version : null;
+}
+
+export function columnNames(metadata: FileMetaData): string[] {
+  return metadata.schema.slice(1).map((element) => element.name);
+}
+
+/**
+ * Why this plugin cannot read a database, or null when it can. Older versions are readable; they
+ * are only missing what later versions added.
+ */
+export function checkSchema(metadata: FileMetaData): string | null {
+  const version = readSchemaVersion(metadata);
+  if (version === null) {
+    const raw = metadata.key_value_metadata?.find((kv) => kv.key === SCHEMA_VERSION_KEY)?.value;
+    return `Unrecognized docs schema version "${raw}".`;
+  }
+  if (version > DOCS_SCHEMA_VERSION) {
+    return `The docs database uses schema version ${version}, but this plugin reads up to version ${DOCS_SCHEMA_VERSION}. Update the plugin, or run /refresh-docs to rebuild the database.`;
+  }
+
+  const columns = columnNames(metadata);
+  const missing = REQUIRED_COLUMNS.filter((c) => !columns.includes(c));
+  if (missing.length > 0) {
+    return `The docs database is missing columns: ${missing.join(', ')}. Run /refresh-docs to rebuild it.`;
+  }
+  return null;
+}
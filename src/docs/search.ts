@@ -0,0 +1,190 @@
+import { getAllPageContents, type PageText, type ParquetStore } from './db.ts';
+import { matchesPathPrefix } from './resolve.ts';
+import { loadCachedSidecar } from './sidecar.ts';
+import { WORD_RE, normalizeWord, tokenize } from './tokenize.ts';
+
+export type SearchDoc = {
+  url: string;
+  title: string;
+  length: number;
+};
+
+export type SearchIndex = {
+  docs: SearchDoc[];
+  avgLength: number;
+  /** term → flat `[docId, termFrequency, docId, termFrequency, ...]` */
+  postings: Map<string, number[]>;
+};
+
+export type SearchHit = {
+  url: string;
+  title: string;
+  score: number;
+};
+
+export type SearchOptions = {
+  limit?: number;
+  pathPrefix?: string;
+};
+
+export const SEARCH_INDEX_VERSION = 1;
+export const DEFAULT_SEARCH_LIMIT = 10;
+export const MAX_SEARCH_LIMIT = 50;
+
+// A title hit counts as this many body hits.
+const TITLE_BOOST = 3;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const SNIPPET_CHARS = 240;
+
+function countTerms(tokens: string[], weight: number, into: Map<string, number>): void {
+  for (const token of tokens) {
+    into.set(token, (into.get(token) ?? 0) + weight);
+  }
+}
+
+export function buildSearchIndex(pages: PageText[]): SearchIndex {
+  const docs: SearchDoc[] = [];
+  const postings = new Map<string, number[]>();
+  let totalLength = 0;
+
+  for (let docId = 0; docId < pages.length; docId++) {
+    const page = pages[docId];
+    const titleTokens = tokenize(page.title);
+    const contentTokens = tokenize(page.content);
+
+    const termFrequencies = new Map<string, number>();
+    countTerms(titleTokens, TITLE_BOOST, termFrequencies);
+    countTerms(contentTokens, 1, termFrequencies);
+
+    const length = titleTokens.length * TITLE_BOOST + contentTokens.length;
+    totalLength += length;
+    docs.push({ url: page.url, title: page.title, length });
+
+    for (const [term, tf] of termFrequencies) {
+      let list = postings.get(term);
+      if (!list) {
+        list = [];
+        postings.set(term, list);
+      }
+      list.push(docId, tf);
+    }
+  }
+
+  return {
+    docs,
+    avgLength: docs.length > 0 ? totalLength / docs.length : 0,
+    postings,
+  };
+}
+
+type SerializedSearchIndex = {
+  docs: SearchDoc[];
+  avgLength: number;
+  postings: Array<[string, number[]]>;
+};
+
+/** Load the search index, cached next to the docs database as the `search` sidecar. */
+export async function loadSearchIndex(store: ParquetStore, dbPath: string): Promise<SearchIndex> {
+  const serialized = await loadCachedSidecar<SerializedSearchIndex>(
+    store,
+    dbPath,
+    'search',
+    SEARCH_INDEX_VERSION,
+    async () => {
+      const index = buildSearchIndex(await getAllPageContents(store));
+      return { docs: index.docs, avgLength: index.avgLength, postings: Array.from(index.postings) };
+    }
+  );
+  return {
+    docs: serialized.docs,
+    avgLength: serialized.avgLength,
+    postings: new Map(serialized.postings),
+  };
+}
+
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  opts: SearchOptions = {}
+): SearchHit[] {
+  const limit = Math.min(Math.max(opts.limit ?? DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+  const terms = Array.from(new Set(tokenize(query)));
+  const docCount = index.docs.length;
+  if (terms.length === 0 || docCount === 0) return [];
+
+  const scores = new Map<number, number>();
+  for (const term of terms) {
+    const list = index.postings.get(term);
+    if (!list) continue;
+
+    const docFrequency = list.length / 2;
+    const idf = Math.log(1 + (docCount - docFrequency + 0.5) / (docFrequency + 0.5));
+
+    for (let i = 0; i < list.length; i += 2) {
+      const docId = list[i];
+      const tf = list[i + 1];
+      const lengthNorm = 1 - BM25_B + BM25_B * (index.docs[docId].length / (index.avgLength || 1));
+      const score = (idf * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm);
+      scores.set(docId, (scores.get(docId) ?? 0) + score);
+    }
+  }
+
+  const hits: SearchHit[] = [];
+  for (const [docId, score] of scores) {
+    const doc = index.docs[docId];
+    if (opts.pathPrefix && !matchesPathPrefix(doc.url, opts.pathPrefix)) continue;
+    hits.push({ url: doc.url, title: doc.title, score });
+  }
+
+  hits.sort((a, b) => b.score - a.score || a.url.localeCompare(b.url));
+  return hits.slice(0, limit);
+}
+
+/**
+ * Pick the window of `content` with the most query-term hits and wrap each hit in `**bold**`.
+ */
+export function highlightSnippet(content: string, query: string, maxChars = SNIPPET_CHARS): string {
+  const terms = new Set(tokenize(query));
+  const matches: Array<{ start: number; end: number }> = [];
+  for (const match of content.matchAll(WORD_RE)) {
+    const token = normalizeWord(match[0]);
+    if (token && terms.has(token)) {
+      matches.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  if (matches.length === 0) {
+    const head = content.slice(0, maxChars).trim();
+    return content.length > maxChars ? `${head}…` : head;
+  }
+
+  // Slide a window anchored on each match and keep the one covering the most matches.
+  let bestStart = 0;
+  let bestCount = 0;
+  let right = 0;
+  for (let left = 0; left < matches.length; left++) {
+    while (right < matches.length && matches[right].end - matches[left].start <= maxChars) right++;
+    if (right - left > bestCount) {
+      bestCount = right - left;
+      bestStart = matches[left].start;
+    }
+  }
+
+  const windowStart = Math.max(0, bestStart - Math.floor(maxChars / 4));
+  const windowEnd = Math.min(content.length, windowStart + maxChars);
+
+  let snippet = '';
+  let cursor = windowStart;
+  for (const m of matches) {
+    if (m.start < windowStart || m.end > windowEnd) continue;
+    snippet += `${content.slice(cursor, m.start)}**${content.slice(m.start, m.end)}**`;
+    cursor = m.end;
+  }
+  snippet += content.slice(cursor, windowEnd);
+
+  snippet = snippet.replace(/\s+/g, ' ').trim();
+  const prefix = windowStart > 0 ? '…' : '';
+  const suffix = windowEnd < content.length ? '…' : '';
+  return `${prefix}${snippet}${suffix}`;
+}
@@ -0,0 +1,132 @@
+import type { PageRecord } from './db.ts';
+
+/**
+ * Heading anchor as recorded by Pagefind. `location` is the index of the heading's first word in
+ * the page content.
+ */
+export type PageAnchor = {
+  element: string;
+  id: string;
+  text: string;
+  location: number;
+};
+
+export type PageSection = {
+  id: string;
+  heading: string;
+  level: number;
+  /** Character offsets into `PageRecord.content`; a section runs until the next heading of the same or higher level. */
+  start: number;
+  end: number;
+};
+
+export type SectionQuery = {
+  anchor?: string;
+  heading?: string;
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function headingLevel(element: string): number {
+  const match = /^h([1-6])$/i.exec(element);
+  return match ? Number(match[1]) : 6;
+}
+
+export function readAnchors(meta: Record<string, unknown>): PageAnchor[] {
+  const raw: unknown = meta['anchors'];
+  if (!Array.isArray(raw)) return [];
+
+  const anchors: PageAnchor[] = [];
+  for (const entry of raw) {
+    if (!isRecord(entry)) continue;
+    const { element, id, text, location } = entry;
+    if (typeof id !== 'string' || id.length === 0) continue;
+    if (typeof location !== 'number' || !Number.isFinite(location)) continue;
+    anchors.push({
+      element: typeof element === 'string' ? element : '',
+      id,
+      text: typeof text === 'string' && text.trim().length > 0 ? text.trim() : id,
+      location,
+    });
+  }
+  return anchors.sort((a, b) => a.location - b.location);
+}
+
+/**
+ * Split page content at its anchor positions. Pagefind locations are word indexes, so they are
+ * mapped back to character offsets by walking the whitespace-separated words of the content.
+ */
+export function splitSections(content: string, anchors: PageAnchor[]): PageSection[] {
+  const wordOffsets: number[] = [];
+  for (const match of content.matchAll(/\S+/g)) wordOffsets.push(match.index);
+
+  const positioned = anchors.map((anchor) => ({
+    anchor,
+    level: headingLevel(anchor.element),
+    start: wordOffsets[anchor.location] ?? content.length,
+  }));
+
+  return positioned.map((current, i) => {
+    let end = content.length;
+    for (let j = i + 1; j < positioned.length; j++) {
+      if (positioned[j].level <= current.level) {
+        end = positioned[j].start;
+        break;
+      }
+    }
+    return {
+      id: current.anchor.id,
+      heading: current.anchor.text,
+      level: current.level,
+      start: current.start,
+      end: Math.max(end, current.start),
+    };
+  });
+}
+
+export function getPageSections(page: PageRecord): PageSection[] {
+  return splitSections(page.content, readAnchors(page.meta));
+}
+
+/**
+ * Find a section by anchor id (exact, leading `#` optional) or by heading text (case-insensitive
+ * exact match first, then substring).
+ */
+export function findSection(sections: PageSection[], query: SectionQuery): PageSection | null {
+  if (query.anchor) {
+    const id = query.anchor.replace(/^#/, '');
+    return sections.find((s) => s.id === id) ?? null;
+  }
+
+  if (query.heading) {
+    const needle = query.heading.trim().toLowerCase();
+    return (
+      sections.find((s) => s.heading.toLowerCase() === needle) ??
+      sections.find((s) => s.heading.toLowerCase().includes(needle)) ??
+      null
+    );
+  }
+
+  return null;
+}
+
+export function formatOutline(page: PageRecord, sections: PageSection[]): string {
+  if (sections.length === 0) {
+    return `${page.title} (${page.url}) has no section anchors; use get_doc_page to read it.`;
+  }
+
+  const minLevel = Math.min(...sections.map((s) => s.level));
+  const lines = sections.map((s) => {
+    const indent = '  '.repeat(s.level - minLevel);
+    const words = page.content.slice(s.start, s.end).split(/\s+/).filter(Boolean).length;
+    return `${indent}- ${s.heading} (#${s.id}, ${words} words)`;
+  });
+  return `Outline of ${page.title} (${page.url}):\n\n${lines.join('\n')}`;
+}
+
+export function formatSection(page: PageRecord, section: PageSection): string {
+  const text = page.content.slice(section.start, section.end).trim();
+  return `${page.title} › ${section.heading} (${page.url}#${section.id})\n\n${text}`;
+}
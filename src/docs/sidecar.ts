@@ -0,0 +1,103 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { decode, encode } from 'cborg';
+
+export type SourceFingerprint = {
+  size: number;
+  mtimeMs: number;
+};
+
+type SidecarEnvelope<T> = {
+  version: number;
+  source: SourceFingerprint;
+  payload: T;
+};
+
+/**
+ * Path of a derived file stored next to the docs database.
+ * `data/docs.parquet` + `search` → `data/docs.search.cbor`
+ */
+export function sidecarPath(dbPath: string, name: string, ext = 'cbor'): string {
+  const dir = path.dirname(dbPath);
+  const base = path.basename(dbPath, path.extname(dbPath));
+  return path.join(dir, `${base}.${name}.${ext}`);
+}
+
+/**
+ * Read a sidecar cache. Returns null when it is missing, unreadable, written by a different
+ * format version, or built from a different copy of the source file.
+ */
+export async function readSidecar<T>(
+  filePath: string,
+  version: number,
+  source: SourceFingerprint
+): Promise<T | null> {
+  let bytes: Uint8Array;
+  try {
+    bytes = new Uint8Array(await fs.readFile(filePath));
+  } catch {
+    return null;
+  }
+
+  let envelope: SidecarEnvelope<T>;
+  try {
+    envelope = decode(bytes) as SidecarEnvelope<T>;
+  } catch {
+    return null;
+  }
+
+  if (
+    !envelope ||
+    envelope.version !== version ||
+    envelope.source?.size !== source.size ||
+    envelope.source?.mtimeMs !== source.mtimeMs
+  ) {
+    return null;
+  }
+
+  return envelope.payload;
+}
+
+/**
+ * Write a sidecar cache atomically. Failures are swallowed: the cache only saves rebuild time, so
+ * a read-only data directory must not break the tools that use it.
+ */
+export async function writeSidecar<T>(
+  filePath: string,
+  version: number,
+  source: SourceFingerprint,
+  payload: T
+): Promise<void> {
+  const envelope: SidecarEnvelope<T> = { version, source, payload };
+  const tmp = `${filePath}.tmp.${process.pid}.${Date.now()}`;
+  try {
+    await fs.writeFile(tmp, encode(envelope));
+    await fs.rename(tmp, filePath);
+  } catch {
+    await fs.rm(tmp, { force: true }).catch(() => undefined);
+  }
+}
+
+/**
+ * Load a derived index cached next to the docs database, building (and caching) it when the cache
+ * is missing or was built from a different copy of the database. The cache is stamped with the
+ * fingerprint of the file `store` opened, not of whatever is at `dbPath` now: another session may
+ * have replaced it since, and the index is built from the store.
+ */
+export async function loadCachedSidecar<T>(
+  store: { source: SourceFingerprint },
+  dbPath: string,
+  name: string,
+  version: number,
+  build: () => Promise<T> | T
+): Promise<T> {
+  const cachePath = sidecarPath(dbPath, name);
+  const { source } = store;
+
+  const cached = await readSidecar<T>(cachePath, version, source);
+  if (cached) return cached;
+
+  const payload = await build();
+  await writeSidecar(cachePath, version, source, payload);
+  return payload;
+}
@@ -0,0 +1,151 @@
+import type { ParquetStore } from './db.ts';
+import { matchesPathPrefix } from './resolve.ts';
+import type { SearchIndex } from './search.ts';
+import { loadCachedSidecar } from './sidecar.ts';
+
+/** Sparse, L2-normalized TF-IDF vector: parallel arrays of vocabulary ids and weights. */
+export type SparseVector = {
+  terms: number[];
+  weights: number[];
+};
+
+export type SimilarityIndex = {
+  docs: Array<{ url: string; title: string }>;
+  vocabulary: string[];
+  vectors: SparseVector[];
+};
+
+export type SimilarHit = {
+  url: string;
+  title: string;
+  score: number;
+  /** Terms contributing most to the score, strongest first. */
+  sharedTerms: string[];
+};
+
+export type SimilarOptions = {
+  limit?: number;
+  pathPrefix?: string;
+};
+
+export const SIMILARITY_INDEX_VERSION = 1;
+export const DEFAULT_SIMILAR_LIMIT = 10;
+export const MAX_SIMILAR_LIMIT = 50;
+
+// Only the strongest terms of each page are kept; the tail adds size but barely moves cosines.
+const MAX_TERMS_PER_DOC = 100;
+const SHARED_TERMS_SHOWN = 5;
+
+/**
+ * Build one TF-IDF vector per page from the search index postings (title hits already boosted).
+ * Terms that occur in a single page cannot make two pages similar and are skipped.
+ */
+export function buildSimilarityIndex(search: SearchIndex): SimilarityIndex {
+  const docCount = search.docs.length;
+  const vocabulary: string[] = [];
+  const perDoc: Array<Array<{ term: number; weight: number }>> = search.docs.map(() => []);
+
+  for (const [term, list] of search.postings) {
+    const docFrequency = list.length / 2;
+    if (docFrequency < 2) continue;
+
+    const idf = Math.log(docCount / docFrequency);
+    if (idf <= 0) continue;
+
+    const termId = vocabulary.length;
+    vocabulary.push(term);
+    for (let i = 0; i < list.length; i += 2) {
+      perDoc[list[i]].push({ term: termId, weight: (1 + Math.log(list[i + 1])) * idf });
+    }
+  }
+
+  const vectors = perDoc.map((entries) => {
+    entries.sort((a, b) => b.weight - a.weight);
+    const kept = entries.slice(0, MAX_TERMS_PER_DOC);
+    const norm = Math.sqrt(kept.reduce((sum, e) => sum + e.weight * e.weight, 0)) || 1;
+    kept.sort((a, b) => a.term - b.term);
+    return { terms: kept.map((e) => e.term), weights: kept.map((e) => e.weight / norm) };
+  });
+
+  return {
+    docs: search.docs.map((d) => ({ url: d.url, title: d.title })),
+    vocabulary,
+    vectors,
+  };
+}
+
+/**
+ * Load the page vectors, cached as the `similar` sidecar and built from the search index of the
+ * database `store` opened.
+ */
+export async function loadSimilarityIndex(
+  search: SearchIndex,
+  store: ParquetStore,
+  dbPath: string
+): Promise<SimilarityIndex> {
+  return loadCachedSidecar(store, dbPath, 'similar', SIMILARITY_INDEX_VERSION, () =>
+    buildSimilarityIndex(search)
+  );
+}
+
+function dotProduct(
+  query: Map<number, number>,
+  vector: SparseVector
+): { score: number; contributions: Array<[number, number]> } {
+  let score = 0;
+  const contributions: Array<[number, number]> = [];
+  for (let i = 0; i < vector.terms.length; i++) {
+    const weight = query.get(vector.terms[i]);
+    if (weight === undefined) continue;
+    const product = weight * vector.weights[i];
+    score += product;
+    contributions.push([vector.terms[i], product]);
+  }
+  return { score, contributions };
+}
+
+/** Pages ranked by cosine similarity to the page at `url` (which must be an exact stored URL). */
+export function findSimilar(
+  index: SimilarityIndex,
+  url: string,
+  opts: SimilarOptions = {}
+): SimilarHit[] {
+  const limit = Math.min(Math.max(opts.limit ?? DEFAULT_SIMILAR_LIMIT, 1), MAX_SIMILAR_LIMIT);
+  const docId = index.docs.findIndex((d) => d.url === url);
+  if (docId === -1) return [];
+
+  const source = index.vectors[docId];
+  const query = new Map<number, number>();
+  for (let i = 0; i < source.terms.length; i++) query.set(source.terms[i], source.weights[i]);
+
+  const hits: SimilarHit[] = [];
+  for (let other = 0; other < index.docs.length; other++) {
+    if (other === docId) continue;
+    const doc = index.docs[other];
+    if (opts.pathPrefix && !matchesPathPrefix(doc.url, opts.pathPrefix)) continue;
+
+    const { score, contributions } = dotProduct(query, index.vectors[other]);
+    if (score <= 0) continue;
+
+    contributions.sort((a, b) => b[1] - a[1]);
+    hits.push({
+      url: doc.url,
+      title: doc.title,
+      score,
+      sharedTerms: contributions.slice(0, SHARED_TERMS_SHOWN).map(([t]) => index.vocabulary[t]),
+    });
+  }
+
+  hits.sort((a, b) => b.score - a.score || a.url.localeCompare(b.url));
+  return hits.slice(0, limit);
+}
+
+export function formatSimilar(title: string, url: string, hits: SimilarHit[]): string {
+  if (hits.length === 0) return `No pages similar to ${title} (${url}) were found.`;
+
+  const lines = hits.map(
+    (hit, i) =>
+      `${i + 1}. ${hit.title} (${hit.url}) — similarity ${hit.score.toFixed(2)}\n   shared terms: ${hit.sharedTerms.join(', ')}`
+  );
+  return `Pages similar to ${title} (${url}):\n\n${lines.join('\n')}`;
+}
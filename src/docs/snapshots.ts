@@ -0,0 +1,113 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { sidecarPath } from './sidecar.ts';
+
+/** `data/docs.parquet` → `data/docs.previous.parquet`, the database a refresh replaced. */
+export function previousSnapshotPath(dbPath: string): string {
+  return sidecarPath(dbPath, 'previous', 'parquet');
+}
+
+/**
+ * Keep the current database as the previous snapshot before a refresh overwrites it, replacing
+ * any older one. Copied rather than moved so other sessions can keep reading it meanwhile. Does
+ * nothing when there is no database yet.
+ */
+export async function rotateSnapshot(dbPath: string): Promise<void> {
+  if (!(await Bun.file(dbPath).exists())) return;
+  await fs.copyFile(dbPath, previousSnapshotPath(dbPath));
+}
+
+export type DatedSnapshot = {
+  /** UTC date of the refresh that wrote it, `YYYY-MM-DD`. */
+  date: string;
+  path: string;
+};
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** `data/docs.parquet` + `2026-10-01` → `data/docs-2026-10-01.parquet` */
+export function datedSnapshotPath(dbPath: string, date: string): string {
+  const ext = path.extname(dbPath);
+  return path.join(path.dirname(dbPath), `${path.basename(dbPath, ext)}-${date}${ext}`);
+}
+
+/** Dated snapshots next to the database, oldest first. */
+export async function listSnapshots(dbPath: string): Promise<DatedSnapshot[]> {
+  const dir = path.dirname(dbPath);
+  const ext = path.extname(dbPath);
+  const prefix = `${path.basename(dbPath, ext)}-`;
+
+  let names: string[];
+  try {
+    names = await fs.readdir(dir);
+  } catch {
+    return [];
+  }
+
+  const snapshots: DatedSnapshot[] = [];
+  for (const name of names) {
+    if (!name.startsWith(prefix) || !name.endsWith(ext)) continue;
+    const date = name.slice(prefix.length, name.length - ext.length);
+    if (DATE_RE.test(date)) snapshots.push({ date, path: path.join(dir, name) });
+  }
+  return snapshots.sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Copy the freshly written database to the snapshot for `date` (replacing one from earlier that
+ * day), then delete all but the newest `keep` snapshots along with their derived caches.
+ */
+export async function writeDatedSnapshot(
+  dbPath: string,
+  date: string,
+  keep: number
+): Promise<string> {
+  const snapshotPath = datedSnapshotPath(dbPath, date);
+  await fs.copyFile(dbPath, snapshotPath);
+
+  const snapshots = await listSnapshots(dbPath);
+  const expired = snapshots.slice(0, Math.max(0, snapshots.length - Math.max(1, keep)));
+  for (const snapshot of expired) await removeSnapshot(snapshot);
+  return snapshotPath;
+}
+
+/** Delete a snapshot and the sidecar caches built from it (`docs-2026-10-01.search.cbor`, ...). */
+async function removeSnapshot(snapshot: DatedSnapshot): Promise<void> {
+  const dir = path.dirname(snapshot.path);
+  const base = path.basename(snapshot.path, path.extname(snapshot.path));
+  for (const name of await fs.readdir(dir)) {
+    if (name === path.basename(snapshot.path) || name.startsWith(`${base}.`)) {
+      await fs.rm(path.join(dir, name), { force: true });
+    }
+  }
+}
+
+/**
+ * Normalize an `asOf` argument (`2026-10-01` or a full ISO timestamp) to a `YYYY-MM-DD` date, or
+ * null when it is not a valid date.
+ */
+export function parseAsOf(value: string): string | null {
+  const trimmed = value.trim();
+  const date = DATE_RE.test(trimmed) ? `${trimmed}T00:00:00.000Z` : trimmed;
+  const parsed = new Date(date);
+  if (Number.isNaN(parsed.getTime())) return null;
+  // Reject dates Date silently rolls over, such as 2026-02-30.
+  if (DATE_RE.test(trimmed) && parsed.toISOString().slice(0, 10) !== trimmed) return null;
+  return parsed.toISOString().slice(0, 10);
+}
+
+/** The newest snapshot taken at or before `asOf`, or null when all of them are newer. */
+export function selectSnapshot(snapshots: DatedSnapshot[], asOf: string): DatedSnapshot | null {
+  let selected: DatedSnapshot | null = null;
+  for (const snapshot of snapshots) {
+    if (snapshot.date <= asOf) selected = snapshot;
+  }
+  return selected;
+}
+
+export function formatNoSnapshot(asOf: string, snapshots: DatedSnapshot[]): string {
+  if (snapshots.length === 0) {
+    return 'No dated docs snapshots found. Set `"palantir_docs": { "snapshots": true }` in opencode.jsonc so that /refresh-docs keeps a dated copy (docs-YYYY-MM-DD.parquet) next to the database on each run.';
+  }
+  return `No docs snapshot was taken at or before ${asOf}. Available snapshots: ${snapshots.map((s) => s.date).join(', ')}.`;
+}
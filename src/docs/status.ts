@@ -0,0 +1,88 @@
+import { parquetReadObjects } from 'hyparquet';
+import type { ParquetStore } from './db.ts';
+import { REFRESH_STATS_KEYS } from './write-parquet.ts';
+
+export type DocsStatus = {
+  /** When the docs were fetched; null when neither the metadata nor the rows say. */
+  fetchedAt: string | null;
+  pageCount: number;
+  /** Pages listed in the Pagefind index at refresh time; null for databases without stats. */
+  totalPages: number | null;
+  failedPages: number | null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function readInt(value: string | undefined): number | null {
+  const n = value === undefined ? NaN : Number(value);
+  return Number.isInteger(n) ? n : null;
+}
+
+/**
+ * Read the refresh stats from the key-value metadata. Databases written before the stats existed
+ * fall back to the newest `fetched_at` of their rows, with the failure count unknown.
+ */
+export async function readDocsStatus(store: ParquetStore): Promise<DocsStatus> {
+  const kv = new Map((store.metadata.key_value_metadata ?? []).map((e) => [e.key, e.value]));
+  const status: DocsStatus = {
+    fetchedAt: kv.get(REFRESH_STATS_KEYS.fetchedAt) ?? null,
+    pageCount: store.index.length,
+    totalPages: readInt(kv.get(REFRESH_STATS_KEYS.totalPages)),
+    failedPages: readInt(kv.get(REFRESH_STATS_KEYS.failedPages)),
+  };
+
+  if (status.fetchedAt === null) {
+    const rows = await parquetReadObjects({
+      file: store.file,
+      metadata: store.metadata,
+      columns: ['fetched_at'],
+    });
+    for (const row of rows) {
+      const value = row.fetched_at as string | null;
+      if (value && (status.fetchedAt === null || value > status.fetchedAt))
+        status.fetchedAt = value;
+    }
+  }
+  return status;
+}
+
+/** Whole days since the docs were fetched, or null when unknown. */
+export function docsAgeDays(status: DocsStatus, now: Date = new Date()): number | null {
+  if (status.fetchedAt === null) return null;
+  const fetched = Date.parse(status.fetchedAt);
+  if (Number.isNaN(fetched)) return null;
+  return Math.max(0, Math.floor((now.getTime() - fetched) / DAY_MS));
+}
+
+/** Warning for docs older than `staleAfterDays` (0 disables it), or null while they are fresh. */
+export function staleWarning(
+  status: DocsStatus,
+  staleAfterDays: number,
+  now: Date = new Date()
+): string | null {
+  const age = docsAgeDays(status, now);
+  if (staleAfterDays <= 0 || age === null || age < staleAfterDays) return null;
+  return `Warning: the documentation database is ${age} days old (fetched ${status.fetchedAt?.slice(0, 10)}), so these results may be out of date. Run /refresh-docs to update it.`;
+}
+
+export function formatDocsStatus(
+  status: DocsStatus,
+  dbPath: string,
+  staleAfterDays: number,
+  now: Date = new Date()
+): string {
+  const age = docsAgeDays(status, now);
+  const fetched =
+    status.fetchedAt === null ? 'unknown' : `${status.fetchedAt} (${age ?? '?'} days ago)`;
+  const failures = status.failedPages === null ? 'unknown' : String(status.failedPages);
+  const lines = [
+    `Documentation database: ${dbPath}`,
+    `Fetched: ${fetched}`,
+    `Pages: ${status.pageCount}${status.totalPages === null ? '' : ` of ${status.totalPages} in the docs index`}`,
+    `Failed fetches: ${failures}`,
+    `Stale after: ${staleAfterDays > 0 ? `${staleAfterDays} days` : 'never (warnings disabled)'}`,
+  ];
+  const warning = staleWarning(status, staleAfterDays, now);
+  if (warning) lines.push('', warning);
+  return lines.join('\n');
+}
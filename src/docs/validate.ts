@@ -0,0 +1,83 @@
+import { parquetMetadata, parquetReadObjects, type FileMetaData } from 'hyparquet';
+import { columnNames, DOCS_SCHEMA_VERSION, readSchemaVersion, REQUIRED_COLUMNS } from './schema.ts';
+
+export type ValidationCheck = {
+  name: string;
+  pass: boolean;
+};
+
+export type ValidationReport = {
+  rowCount: number;
+  emptyContent: number;
+  duplicateUrls: number;
+  checks: ValidationCheck[];
+  ok: boolean;
+};
+
+export const MIN_ROW_COUNT = 3600;
+/** A page every complete download contains, used as a smoke test for the content column. */
+export const KNOWN_PAGE_URL = '/apollo/recalling-releases/recall-ranges/';
+
+function report(
+  checks: ValidationCheck[],
+  counts: Partial<ValidationReport> = {}
+): ValidationReport {
+  return {
+    rowCount: counts.rowCount ?? 0,
+    emptyContent: counts.emptyContent ?? 0,
+    duplicateUrls: counts.duplicateUrls ?? 0,
+    checks,
+    ok: checks.every((c) => c.pass),
+  };
+}
+
+/**
+ * Check that a file is a complete docs database: readable Parquet of a supported schema version
+ * with the expected columns, at least `MIN_ROW_COUNT` pages, no empty content, no duplicate URLs,
+ * and the known page present.
+ */
+export async function validateDocsFile(file: ArrayBuffer): Promise<ValidationReport> {
+  let metadata: FileMetaData;
+  try {
+    metadata = parquetMetadata(file);
+  } catch {
+    return report([{ name: 'Readable Parquet file', pass: false }]);
+  }
+
+  // Older versions are upgraded once installed; newer ones need a newer plugin.
+  const version = readSchemaVersion(metadata);
+  if (version === null || version > DOCS_SCHEMA_VERSION) {
+    return report([{ name: `Schema version <= ${DOCS_SCHEMA_VERSION}`, pass: false }]);
+  }
+
+  const columns = columnNames(metadata);
+  const missing = REQUIRED_COLUMNS.filter((c) => !columns.includes(c));
+  if (missing.length > 0) {
+    return report([{ name: `Has columns ${REQUIRED_COLUMNS.join(', ')}`, pass: false }]);
+  }
+
+  const rows = await parquetReadObjects({ file, columns: ['url', 'content'] });
+  const emptyContent = rows.filter((r) => !r.content || (r.content as string).length === 0).length;
+  const duplicateUrls = rows.length - new Set(rows.map((r) => r.url as string)).size;
+  const knownPage = rows.find((r) => r.url === KNOWN_PAGE_URL);
+  const knownLength = (knownPage?.content as string | undefined)?.length ?? 0;
+
+  return report(
+    [
+      { name: `Row count >= ${MIN_ROW_COUNT}`, pass: rows.length >= MIN_ROW_COUNT },
+      { name: 'No empty content', pass: emptyContent === 0 },
+      { name: 'No duplicate URLs', pass: duplicateUrls === 0 },
+      { name: 'Known page exists', pass: !!knownPage },
+      { name: 'Known page has content', pass: knownLength > 100 },
+    ],
+    { rowCount: rows.length, emptyContent, duplicateUrls }
+  );
+}
+
+export function formatValidation(result: ValidationReport): string {
+  const lines = [
+    `Rows: ${result.rowCount}, empty content: ${result.emptyContent}, duplicate URLs: ${result.duplicateUrls}`,
+  ];
+  for (const check of result.checks) lines.push(`${check.pass ? '✓' : '✗'} ${check.name}`);
+  return lines.join('\n');
+}
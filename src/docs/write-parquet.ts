@@ -1,7 +1,63 @@
+import fs from 'node:fs/promises';
+import type { FileMetaData } from 'hyparquet';
 import { parquetWriteBuffer } from 'hyparquet-writer';
-import type { PageRecord } from './db.ts';
+import { compareUrls, SORT_ORDER_KEY, type PageRecord } from './db.ts';
+import { DOCS_SCHEMA_VERSION, SCHEMA_VERSION_KEY } from './schema.ts';
 
-export async function writeParquet(pages: PageRecord[], outputPath: string): Promise<void> {
+/** Facts about the refresh that wrote a database, stored in the Parquet key-value metadata. */
+export type RefreshStats = {
+  fetchedAt: string;
+  totalPages: number;
+  failedPages: number;
+};
+
+export const REFRESH_STATS_KEYS = {
+  fetchedAt: 'palantir_docs.fetched_at',
+  totalPages: 'palantir_docs.total_pages',
+  failedPages: 'palantir_docs.failed_pages',
+} as const;
+
+/** The refresh stats a database was written with, or undefined when any is missing. */
+export function readRefreshStats(metadata: FileMetaData): RefreshStats | undefined {
+  const kv = new Map((metadata.key_value_metadata ?? []).map((e) => [e.key, e.value]));
+  const fetchedAt = kv.get(REFRESH_STATS_KEYS.fetchedAt);
+  const totalPages = Number(kv.get(REFRESH_STATS_KEYS.totalPages));
+  const failedPages = Number(kv.get(REFRESH_STATS_KEYS.failedPages));
+  if (!fetchedAt || !Number.isInteger(totalPages) || !Number.isInteger(failedPages)) {
+    return undefined;
+  }
+  return { fetchedAt, totalPages, failedPages };
+}
+
+/** Compression codecs that both hyparquet-writer and hyparquet handle without extra packages. */
+export type DocsCodec = 'UNCOMPRESSED' | 'SNAPPY';
+
+export type WriteOptions = {
+  stats?: RefreshStats;
+  /** Page compression (default `DEFAULT_CODEC`). */
+  codec?: DocsCodec;
+  /** Rows per row group (default `DEFAULT_ROW_GROUP_SIZE`). */
+  rowGroupSize?: number;
+};
+
+export const DEFAULT_CODEC: DocsCodec = 'SNAPPY';
+/**
+ * Small enough that a page lookup only reads and decompresses a few hundred kilobytes of content,
+ * large enough to keep the footer to a few dozen row groups for the full docs.
+ */
+export const DEFAULT_ROW_GROUP_SIZE = 100;
+
+/**
+ * Write pages sorted by URL, in compressed row groups with column statistics, so readers
+ * filtering on URL can skip row groups by their min/max.
+ */
+export async function writeParquet(
+  unsorted: PageRecord[],
+  outputPath: string,
+  options: WriteOptions = {}
+): Promise<void> {
+  const { stats } = options;
+  const pages = [...unsorted].sort((a, b) => compareUrls(a.url, b.url));
   const buffer = parquetWriteBuffer({
     columnData: [
       { name: 'url', data: pages.map((p) => p.url), type: 'STRING' },
@@ -14,8 +70,25 @@ export async function writeParquet(pages: PageRecord[], outputPath: string): Pro
         data: pages.map((p) => p.fetchedAt),
         type: 'STRING',
       },
+      { name: 'fragment_hash', data: pages.map((p) => p.fragmentHash ?? null), type: 'STRING' },
+    ],
+    codec: options.codec ?? DEFAULT_CODEC,
+    rowGroupSize: options.rowGroupSize ?? DEFAULT_ROW_GROUP_SIZE,
+    statistics: true,
+    kvMetadata: [
+      { key: SCHEMA_VERSION_KEY, value: String(DOCS_SCHEMA_VERSION) },
+      { key: SORT_ORDER_KEY, value: 'url' },
+      ...(stats
+        ? [
+            { key: REFRESH_STATS_KEYS.fetchedAt, value: stats.fetchedAt },
+            { key: REFRESH_STATS_KEYS.totalPages, value: String(stats.totalPages) },
+            { key: REFRESH_STATS_KEYS.failedPages, value: String(stats.failedPages) },
+          ]
+        : []),
     ],
-    codec: 'UNCOMPRESSED',
   });
-  await Bun.write(outputPath, buffer);
+  // Write next to the target and rename, so readers never see a half-written file.
+  const tmpPath = `${outputPath}.${process.pid}.tmp`;
+  await Bun.write(tmpPath, buffer);
+  await fs.rename(tmpPath, outputPath);
 }
@@ -1,36 +1,450 @@
 import type { Plugin } from '@opencode-ai/plugin';
 import { tool } from '@opencode-ai/plugin/tool';
+import fs from 'node:fs/promises';
 import path from 'node:path';
+import { fileURLToPath } from 'node:url';
 import {
   createDatabase,
   getPage,
   getAllPages,
+  getAllPageContents,
+  getFacetIndex,
   closeDatabase,
+  isDatabaseReplaced,
+  type PageRecord,
   type ParquetStore,
 } from './docs/db.ts';
-import { fetchAllDocs } from './docs/fetch.ts';
+import {
+  DEFAULT_API_LIMIT,
+  HTTP_METHODS,
+  MAX_API_LIMIT,
+  formatApiHits,
+  loadApiCatalog,
+  searchApiCatalog,
+  type ApiEndpoint,
+} from './docs/api-catalog.ts';
+import { formatSourcesFrontMatter, withFrontMatter } from './docs/citation.ts';
+import { readDocsConfig, type DocsConfig } from './docs/config.ts';
+import { diffSnapshots, digestSnapshot, formatDocsDiff, formatPageDiff } from './docs/diff.ts';
+import {
+  DEFAULT_EXAMPLES_LIMIT,
+  EXAMPLE_LANGUAGES,
+  MAX_EXAMPLES_LIMIT,
+  formatExamples,
+  loadExamplesIndex,
+  searchExamples,
+  type DocExample,
+} from './docs/examples.ts';
+import { fetchAllDocs, formatChanges, type FetchResult } from './docs/fetch.ts';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  highlightSnippet,
+  loadSearchIndex,
+  searchIndex,
+  type SearchIndex,
+} from './docs/search.ts';
+import {
+  DEFAULT_BATCH_CHARS,
+  MAX_BATCH_URLS,
+  formatPageBatch,
+  type BatchMiss,
+} from './docs/batch.ts';
+import {
+  CHARS_PER_TOKEN,
+  DEFAULT_CHUNK_CHARS,
+  chunkContent,
+  chunkIndexAtOffset,
+  decodeCursor,
+  formatChunk,
+  resolveChunkChars,
+} from './docs/chunk.ts';
+import {
+  buildGlossary,
+  formatDefinition,
+  formatUnknownTerm,
+  lookupTerm,
+  type Glossary,
+} from './docs/glossary.ts';
+import { filterByFacetUrls, formatFacets, matchFacets } from './docs/facets.ts';
+import { formatBrowse, getDocTree, treePath } from './docs/hierarchy.ts';
+import { importDocsBundle, parseChecksum, type ImportResult } from './docs/import.ts';
+import {
+  formatRefreshInProgress,
+  hasJournal,
+  INTERRUPTED_REFRESH_MESSAGE,
+  NO_INTERRUPTED_REFRESH_MESSAGE,
+  readJournal,
+} from './docs/journal.ts';
+import { displayPath, expandHome, resolveDocsLocation } from './docs/location.ts';
+import { acquireDocsLock, formatLockHeld, readLockOwner } from './docs/lock.ts';
+import { formatRelated, loadLinkGraph, type LinkGraph } from './docs/links.ts';
+import { migrateDocsDatabase, needsMigration } from './docs/migrate.ts';
+import {
+  DEFAULT_PAGE_SIZE,
+  DEFAULT_TREE_DEPTH,
+  MAX_PAGE_SIZE,
+  formatPageListing,
+} from './docs/listing.ts';
+import { formatOverviewContext, loadOverview } from './docs/overview.ts';
+import { formatDocsStatus, readDocsStatus, staleWarning, type DocsStatus } from './docs/status.ts';
+import { formatNotFound, resolvePageUrl } from './docs/resolve.ts';
+import { DOCS_SCHEMA_VERSION } from './docs/schema.ts';
+import { findSection, formatOutline, formatSection, getPageSections } from './docs/sections.ts';
+import {
+  formatNoSnapshot,
+  listSnapshots,
+  parseAsOf,
+  previousSnapshotPath,
+  selectSnapshot,
+} from './docs/snapshots.ts';
+import {
+  DEFAULT_SIMILAR_LIMIT,
+  MAX_SIMILAR_LIMIT,
+  findSimilar,
+  formatSimilar,
+  loadSimilarityIndex,
+  type SimilarityIndex,
+} from './docs/similarity.ts';
 import { rescanPalantirMcpTools, setupPalantirMcp } from './palantir-mcp/commands.ts';
+import { DOCS_TOOL_NAMES } from './palantir-mcp/opencode-config.ts';
 
 const NO_DB_MESSAGE =
   'Documentation database not found. Run /refresh-docs to download Palantir Foundry documentation.';
 
+const CITATION_ARG_DESCRIPTION =
+  'Prefix the result with front matter (title, canonical palantir.com URL, fetch time, word count, filters) for citing the page';
+
+const SOURCES_CITATION_ARG_DESCRIPTION =
+  'Prefix the result with front matter listing the canonical palantir.com URL and fetch time of each page it mentions, for citing them';
+
+const AS_OF_ARG_DESCRIPTION =
+  'Read the newest dated docs snapshot taken at or before this date (YYYY-MM-DD) instead of the current docs';
+
+// Each open snapshot holds a file descriptor and its page index, so only keep the latest few.
+const MAX_OPEN_SNAPSHOTS = 3;
+
+// Sessions are only forgotten when deleted, so also cap how many agents are remembered.
+const MAX_SESSION_AGENTS = 256;
+
+// Resolves to the repo's data/ directory from both src/ and the bundled dist/.
+const SUMMARY_PATH = fileURLToPath(new URL('../data/llm-summary.md', import.meta.url));
+
+/** The database a tool call reads: the current docs, or a dated snapshot selected by `asOf`. */
+type DocsSource = {
+  store: ParquetStore;
+  path: string;
+  /** Shown above the result when reading a snapshot. */
+  note: string | null;
+};
+
+type SystemContext = {
+  agents: Set<string>;
+  text: string;
+};
+
 const plugin: Plugin = async (input) => {
-  const dbPath = path.join(input.worktree, 'data', 'docs.parquet');
   let dbInstance: ParquetStore | null = null;
+  let searchIndexInstance: SearchIndex | null = null;
+  let linkGraphInstance: LinkGraph | null = null;
+  let similarityIndexInstance: SimilarityIndex | null = null;
+  let glossaryInstance: Glossary | null = null;
+  let examplesInstance: DocExample[] | null = null;
+  let apiCatalogInstance: ApiEndpoint[] | null = null;
+  let docsStatusInstance: DocsStatus | null = null;
+  const snapshotStores = new Map<string, ParquetStore>();
+  const snapshotSearchIndexes = new Map<string, SearchIndex>();
+  let configPromise: Promise<DocsConfig> | null = null;
+  let systemContextPromise: Promise<SystemContext | null> | null = null;
+  // The system prompt hook does not say which agent is running, so remember it per session.
+  const sessionAgents = new Map<string, string>();
+  // The after hook does not see a call's arguments, so remember the calls that read a snapshot.
+  const snapshotCalls = new Set<string>();
+  const dbPath = (await resolveDocsLocation(input.worktree, (await getConfig()).path)).path;
 
   type CommandOutput = { parts: unknown[] };
 
+  /**
+   * Upgrade a database written by an older plugin version before opening it. Skipped while another
+   * process holds the docs lock or when the rewrite fails: older versions remain readable.
+   */
+  async function upgradeDocs(): Promise<void> {
+    if (!(await needsMigration(dbPath))) return;
+    const lock = await acquireDocsLock(dbPath);
+    if (!lock.ok) return;
+    try {
+      await migrateDocsDatabase(dbPath);
+    } catch {
+      // Keep reading the old version.
+    } finally {
+      await lock.release();
+    }
+  }
+
+  /** The open database, reopened when another session has replaced the file since. */
   async function getDb(): Promise<ParquetStore> {
+    if (dbInstance && (await isDatabaseReplaced(dbInstance, dbPath))) resetDocs();
     if (!dbInstance) {
+      await upgradeDocs();
       dbInstance = await createDatabase(dbPath);
     }
     return dbInstance;
   }
 
+  async function getSearchIndex(): Promise<SearchIndex> {
+    const db = await getDb();
+    if (!searchIndexInstance) {
+      searchIndexInstance = await loadSearchIndex(db, dbPath);
+    }
+    return searchIndexInstance;
+  }
+
+  /** Open the current docs, or with `asOf` the newest dated snapshot at or before that date. */
+  async function openDocs(asOf: string | undefined): Promise<DocsSource | string> {
+    if (asOf === undefined) {
+      if (!(await dbExists())) return NO_DB_MESSAGE;
+      return { store: await getDb(), path: dbPath, note: null };
+    }
+
+    const date = parseAsOf(asOf);
+    if (date === null) return `Invalid asOf date: ${asOf} (expected YYYY-MM-DD).`;
+    const snapshots = await listSnapshots(dbPath);
+    const snapshot = selectSnapshot(snapshots, date);
+    if (!snapshot) return formatNoSnapshot(date, snapshots);
+
+    let store = snapshotStores.get(snapshot.path);
+    if (store) {
+      snapshotStores.delete(snapshot.path);
+    } else {
+      store = await createDatabase(snapshot.path);
+    }
+    snapshotStores.set(snapshot.path, store);
+    while (snapshotStores.size > MAX_OPEN_SNAPSHOTS) {
+      const [oldestPath, oldest] = snapshotStores.entries().next().value as [string, ParquetStore];
+      snapshotStores.delete(oldestPath);
+      snapshotSearchIndexes.delete(oldestPath);
+      closeDatabase(oldest);
+    }
+    const note = `[Docs snapshot of ${snapshot.date}, the newest at or before ${date}]`;
+    return { store, path: snapshot.path, note };
+  }
+
+  async function getDocsStatus(): Promise<DocsStatus> {
+    const db = await getDb();
+    if (!docsStatusInstance) {
+      docsStatusInstance = await readDocsStatus(db);
+    }
+    return docsStatusInstance;
+  }
+
+  async function getSearchIndexFor(source: DocsSource): Promise<SearchIndex> {
+    if (source.path === dbPath) return getSearchIndex();
+    let index = snapshotSearchIndexes.get(source.path);
+    if (!index) {
+      index = await loadSearchIndex(source.store, source.path);
+      snapshotSearchIndexes.set(source.path, index);
+    }
+    return index;
+  }
+
+  function withSnapshotNote(source: DocsSource, text: string): string {
+    return source.note ? `${source.note}\n\n${text}` : text;
+  }
+
+  async function getLinkGraph(): Promise<LinkGraph> {
+    const db = await getDb();
+    if (!linkGraphInstance) {
+      linkGraphInstance = await loadLinkGraph(db, dbPath);
+    }
+    return linkGraphInstance;
+  }
+
+  async function getSimilarityIndex(): Promise<SimilarityIndex> {
+    const search = await getSearchIndex();
+    if (!similarityIndexInstance) {
+      similarityIndexInstance = await loadSimilarityIndex(search, await getDb(), dbPath);
+    }
+    return similarityIndexInstance;
+  }
+
+  async function getExamples(): Promise<DocExample[]> {
+    const db = await getDb();
+    if (!examplesInstance) {
+      examplesInstance = await loadExamplesIndex(db, dbPath);
+    }
+    return examplesInstance;
+  }
+
+  async function getApiCatalog(): Promise<ApiEndpoint[]> {
+    const db = await getDb();
+    if (!apiCatalogInstance) {
+      apiCatalogInstance = await loadApiCatalog(db, dbPath);
+    }
+    return apiCatalogInstance;
+  }
+
+  /** Glossary from the bundled summary, plus definitions mined from the docs when downloaded. */
+  async function getGlossary(): Promise<Glossary> {
+    const db = (await dbExists()) ? await getDb() : null;
+    if (!glossaryInstance) {
+      const summary = await fs.readFile(SUMMARY_PATH, 'utf8').catch(() => null);
+      const pages = db ? await getAllPageContents(db) : [];
+      glossaryInstance = buildGlossary(summary, pages);
+    }
+    return glossaryInstance;
+  }
+
+  /** `palantir_docs` settings from opencode.jsonc, read once per session like the rest of the config. */
+  function getConfig(): Promise<DocsConfig> {
+    if (!configPromise) configPromise = readDocsConfig(input.worktree);
+    return configPromise;
+  }
+
+  /** Whether to prefix page content with citation front matter for this call. */
+  async function wantsCitation(requested: boolean | undefined): Promise<boolean> {
+    return requested === true || (await getConfig()).citations;
+  }
+
+  /** Prefix a result that lists pages with front matter citing each of them, when asked for. */
+  async function withSources(
+    store: ParquetStore,
+    urls: string[],
+    text: string,
+    requested: boolean | undefined
+  ): Promise<string> {
+    if (!(await wantsCitation(requested))) return text;
+    const pages: PageRecord[] = [];
+    for (const url of new Set(urls)) {
+      const page = await getPage(store, url);
+      if (page) pages.push(page);
+    }
+    return pages.length > 0 ? `${formatSourcesFrontMatter(pages)}\n${text}` : text;
+  }
+
+  async function loadSystemContext(): Promise<SystemContext | null> {
+    const { enabled, file, agents } = (await getConfig()).systemContext;
+    if (!enabled || agents.length === 0) return null;
+
+    const overview = await loadOverview(file ? path.resolve(input.worktree, file) : SUMMARY_PATH);
+    return overview ? { agents: new Set(agents), text: formatOverviewContext(overview) } : null;
+  }
+
+  /** Platform overview injected into the Foundry agents' system prompt, or null when disabled. */
+  function getSystemContext(): Promise<SystemContext | null> {
+    if (!systemContextPromise) systemContextPromise = loadSystemContext();
+    return systemContextPromise;
+  }
+
+  /** Drop the open database and everything derived from it, e.g. after the file was replaced. */
+  function resetDocs(): void {
+    if (dbInstance) {
+      closeDatabase(dbInstance);
+      dbInstance = null;
+    }
+    searchIndexInstance = null;
+    linkGraphInstance = null;
+    similarityIndexInstance = null;
+    glossaryInstance = null;
+    examplesInstance = null;
+    apiCatalogInstance = null;
+    docsStatusInstance = null;
+    for (const store of snapshotStores.values()) closeDatabase(store);
+    snapshotStores.clear();
+    snapshotSearchIndexes.clear();
+  }
+
+  /**
+   * Look up a page by a possibly sloppy URL. Returns the page, or a not-found message listing the
+   * closest known URLs.
+   */
+  async function findPage(db: ParquetStore, url: string): Promise<PageRecord | string> {
+    const resolved = resolvePageUrl(db, url);
+    if (resolved.url === null) return formatNotFound(url, resolved.suggestions);
+
+    const page = await getPage(db, resolved.url);
+    return page ?? formatNotFound(url, []);
+  }
+
   async function dbExists(): Promise<boolean> {
     return Bun.file(dbPath).exists();
   }
 
+  /**
+   * `/docs-diff`: pages added, removed or modified by the last refresh, or with a URL argument the
+   * text diff of that page.
+   */
+  async function docsDiff(url: string): Promise<string> {
+    if (!(await dbExists())) return NO_DB_MESSAGE;
+    const previousPath = previousSnapshotPath(dbPath);
+    if (!(await Bun.file(previousPath).exists())) {
+      return 'No previous documentation snapshot to compare with. /refresh-docs keeps the database it replaces; run it again to see what changed.';
+    }
+
+    const current = await getDb();
+    const previous = await createDatabase(previousPath);
+    try {
+      return await diffDocs(current, previous, url);
+    } finally {
+      closeDatabase(previous);
+    }
+  }
+
+  async function diffDocs(
+    current: ParquetStore,
+    previous: ParquetStore,
+    url: string
+  ): Promise<string> {
+    if (!url) {
+      const diff = diffSnapshots(await digestSnapshot(previous), await digestSnapshot(current));
+      return formatDocsDiff(diff);
+    }
+
+    // Removed pages only resolve against the previous snapshot.
+    const resolved = resolvePageUrl(current, url);
+    const fallback = resolved.url === null ? resolvePageUrl(previous, url) : resolved;
+    if (fallback.url === null) {
+      return formatNotFound(url, resolved.url === null ? resolved.suggestions : []);
+    }
+    const resolvedUrl = fallback.url;
+
+    const before = await getPage(previous, resolvedUrl);
+    const after = await getPage(current, resolvedUrl);
+    const title = after?.title ?? before?.title ?? resolvedUrl;
+    return formatPageDiff(
+      { url: resolvedUrl, title },
+      before?.content ?? null,
+      after?.content ?? null
+    );
+  }
+
+  /** `/import-docs <path> [sha256]`: install a prebuilt docs bundle from a local file. */
+  async function importDocs(args: string): Promise<string> {
+    // Paths may contain spaces, so the last word is only the checksum when it looks like one.
+    const trimmed = args.trim();
+    const last = trimmed.split(/\s+/).pop() ?? '';
+    const expected = last !== trimmed ? parseChecksum(last) : null;
+    const file = expected === null ? trimmed : trimmed.slice(0, -last.length).trim();
+    if (!file) return 'Usage: /import-docs <path-to-docs.parquet> [sha256]';
+
+    const lock = await acquireDocsLock(dbPath);
+    if (!lock.ok) return formatLockHeld(lock.owner);
+
+    const bundlePath = path.resolve(input.worktree, expandHome(file));
+    let result: ImportResult;
+    try {
+      result = await importDocsBundle(bundlePath, dbPath, expected);
+    } finally {
+      await lock.release();
+    }
+    if (!result.ok) return result.error;
+
+    resetDocs();
+    const imported = `Imported ${result.report.rowCount} pages from ${bundlePath} into ${dbPath} (sha256 ${result.checksum}).`;
+    return result.upgradedFrom === null
+      ? imported
+      : `${imported} Upgraded it from schema version ${result.upgradedFrom} to ${DOCS_SCHEMA_VERSION}.`;
+  }
+
   function pushText(output: CommandOutput, text: string): void {
     output.parts.push({ type: 'text', text });
   }
@@ -39,54 +453,624 @@ const plugin: Plugin = async (input) => {
     tool: {
       get_doc_page: tool({
         description:
-          'Retrieve a Palantir Foundry documentation page by its URL path. Use this when you need the full content of a specific documentation page.',
+          'Retrieve a Palantir Foundry documentation page by its URL path. Use this when you need the full content of a specific documentation page. For long pages pass maxChars or maxTokens to read it in chunks; each chunk ends with a cursor for the next one.',
         args: {
           url: tool.schema
             .string()
-            .describe('The URL path of the doc page, e.g. /docs/foundry/ontology/overview/'),
+            .describe(
+              'The URL path of the doc page, e.g. /foundry/ontology/overview/ (full palantir.com URLs and /docs/... paths also work)'
+            ),
+          maxChars: tool.schema
+            .number()
+            .int()
+            .min(1)
+            .optional()
+            .describe(
+              `Return at most this many characters per chunk (default ${DEFAULT_CHUNK_CHARS} when paging)`
+            ),
+          maxTokens: tool.schema
+            .number()
+            .int()
+            .min(1)
+            .optional()
+            .describe('Alternative to maxChars: approximate token budget per chunk'),
+          offset: tool.schema
+            .number()
+            .int()
+            .min(0)
+            .optional()
+            .describe('Start from the chunk containing this character offset'),
+          cursor: tool.schema
+            .string()
+            .optional()
+            .describe('Continuation cursor returned by a previous chunked call'),
+          citation: tool.schema.boolean().optional().describe(CITATION_ARG_DESCRIPTION),
+          asOf: tool.schema.string().optional().describe(AS_OF_ARG_DESCRIPTION),
+        },
+        async execute(args) {
+          const source = await openDocs(args.asOf);
+          if (typeof source === 'string') return source;
+
+          const page = await findPage(source.store, args.url);
+          if (typeof page === 'string') return page;
+
+          const cite = await wantsCitation(args.citation);
+          const paging =
+            args.cursor !== undefined ||
+            args.maxChars !== undefined ||
+            args.maxTokens !== undefined ||
+            args.offset !== undefined;
+          if (!paging) {
+            return withSnapshotNote(
+              source,
+              cite ? withFrontMatter(page, page.content) : page.content
+            );
+          }
+
+          let maxChars: number;
+          let chunkIndex: number;
+          let start = 0;
+          if (args.cursor !== undefined) {
+            const cursor = decodeCursor(args.cursor);
+            if (!cursor) return `Invalid cursor: ${args.cursor}`;
+            if (cursor.url !== page.url) {
+              return `Cursor belongs to ${cursor.url}, not ${page.url}.`;
+            }
+            maxChars = cursor.maxChars;
+            chunkIndex = cursor.chunk;
+            start = cursor.start ?? 0;
+          } else {
+            maxChars = resolveChunkChars({ maxChars: args.maxChars, maxTokens: args.maxTokens });
+            chunkIndex = -1;
+          }
+
+          const chunks = chunkContent(page.content, maxChars, start);
+          if (chunkIndex === -1) chunkIndex = chunkIndexAtOffset(chunks, args.offset ?? 0);
+          if (chunkIndex >= chunks.length) {
+            return `Cursor is past the end of ${page.url} (${chunks.length} chunks).`;
+          }
+
+          const chunk = formatChunk(page.content, chunks, chunkIndex, page.url, maxChars);
+          return withSnapshotNote(source, cite ? withFrontMatter(page, chunk) : chunk);
+        },
+      }),
+
+      get_doc_pages: tool({
+        description:
+          'Retrieve several Palantir Foundry documentation pages in one call, sharing one character budget fairly across them. Each page gets a header; pages cut to fit are listed at the end with a get_doc_page cursor that continues where they were cut. Use this instead of repeated get_doc_page calls when synthesizing across pages.',
+        args: {
+          urls: tool.schema
+            .array(tool.schema.string())
+            .min(1)
+            .max(MAX_BATCH_URLS)
+            .describe('URL paths of the doc pages, e.g. ["/foundry/ontology/overview/"]'),
+          maxTotalChars: tool.schema
+            .number()
+            .int()
+            .min(1)
+            .optional()
+            .describe(`Total characters across all pages (default ${DEFAULT_BATCH_CHARS})`),
+          maxTotalTokens: tool.schema
+            .number()
+            .int()
+            .min(1)
+            .optional()
+            .describe('Alternative to maxTotalChars: approximate total token budget'),
+          citation: tool.schema.boolean().optional().describe(CITATION_ARG_DESCRIPTION),
+        },
+        async execute(args) {
+          if (!(await dbExists())) return NO_DB_MESSAGE;
+
+          const db = await getDb();
+          const pages: PageRecord[] = [];
+          const misses: BatchMiss[] = [];
+          for (const url of args.urls) {
+            const resolved = resolvePageUrl(db, url);
+            if (resolved.url === null) {
+              misses.push({ url, suggestions: resolved.suggestions });
+              continue;
+            }
+            if (pages.some((p) => p.url === resolved.url)) continue;
+            const page = await getPage(db, resolved.url);
+            if (page) pages.push(page);
+            else misses.push({ url, suggestions: [] });
+          }
+          if (pages.length === 0) {
+            return `None of the requested pages were found.\n\n${formatPageBatch([], 0, { misses })}`;
+          }
+
+          const maxTotalChars =
+            args.maxTotalChars ??
+            (args.maxTotalTokens !== undefined
+              ? args.maxTotalTokens * CHARS_PER_TOKEN
+              : DEFAULT_BATCH_CHARS);
+          return formatPageBatch(pages, maxTotalChars, {
+            misses,
+            citations: await wantsCitation(args.citation),
+          });
+        },
+      }),
+
+      get_doc_section: tool({
+        description:
+          'Retrieve one section of a Palantir Foundry documentation page by anchor ID or heading text. Call it with only a URL to get the page outline (headings and anchor IDs). Use this instead of get_doc_page for long pages.',
+        args: {
+          url: tool.schema
+            .string()
+            .describe(
+              'The URL path of the doc page, e.g. /foundry/ontology/overview/ (full palantir.com URLs and /docs/... paths also work)'
+            ),
+          anchor: tool.schema
+            .string()
+            .optional()
+            .describe(
+              'Anchor ID of the section, as listed in the outline, e.g. incremental-transforms'
+            ),
+          heading: tool.schema
+            .string()
+            .optional()
+            .describe('Heading text of the section, e.g. "Incremental transforms"'),
+          citation: tool.schema.boolean().optional().describe(CITATION_ARG_DESCRIPTION),
         },
         async execute(args) {
           if (!(await dbExists())) return NO_DB_MESSAGE;
 
           const db = await getDb();
-          const page = await getPage(db, args.url);
-          if (!page) return `Page not found: ${args.url}`;
+          const page = await findPage(db, args.url);
+          if (typeof page === 'string') return page;
 
-          return page.content;
+          const sections = getPageSections(page);
+          if (!args.anchor && !args.heading) return formatOutline(page, sections);
+
+          const section = findSection(sections, { anchor: args.anchor, heading: args.heading });
+          if (!section) {
+            const wanted = args.anchor ? `#${args.anchor.replace(/^#/, '')}` : `"${args.heading}"`;
+            return `Section not found: ${wanted}\n\n${formatOutline(page, sections)}`;
+          }
+
+          const text = formatSection(page, section);
+          return (await wantsCitation(args.citation))
+            ? withFrontMatter(page, text, section.id)
+            : text;
         },
       }),
 
       list_all_docs: tool({
         description:
-          'List all available Palantir Foundry documentation pages with their URLs and titles. Use this to discover what documentation is available.',
+          'List available Palantir Foundry documentation pages with their URLs and titles. Use this to discover what documentation is available. Results are paginated; narrow them with pathPrefix/titleContains, or use format="tree" to browse sections with page counts.',
+        args: {
+          pathPrefix: tool.schema
+            .string()
+            .optional()
+            .describe('Only list pages whose URL starts with this prefix, e.g. /foundry/'),
+          titleContains: tool.schema
+            .string()
+            .optional()
+            .describe('Only list pages whose title contains this text (case-insensitive)'),
+          page: tool.schema
+            .number()
+            .int()
+            .min(1)
+            .optional()
+            .describe('Page number of the results (default 1)'),
+          pageSize: tool.schema
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_PAGE_SIZE)
+            .optional()
+            .describe(`Results per page (default ${DEFAULT_PAGE_SIZE})`),
+          format: tool.schema
+            .enum(['list', 'tree'])
+            .optional()
+            .describe('"list" (default) or "tree": URL sections under pathPrefix with page counts'),
+          depth: tool.schema
+            .number()
+            .int()
+            .min(1)
+            .optional()
+            .describe(`Tree levels to expand below pathPrefix (default ${DEFAULT_TREE_DEPTH})`),
+          filters: tool.schema
+            .record(tool.schema.string(), tool.schema.string())
+            .optional()
+            .describe(
+              'Only list pages tagged with these Pagefind facet values, e.g. {"product": "Foundry"}; see list_doc_facets'
+            ),
+          asOf: tool.schema.string().optional().describe(AS_OF_ARG_DESCRIPTION),
+        },
+        async execute(args) {
+          const source = await openDocs(args.asOf);
+          if (typeof source === 'string') return source;
+
+          const db = source.store;
+          let pages = getAllPages(db);
+          if (args.filters && Object.keys(args.filters).length > 0) {
+            const index = await getFacetIndex(db);
+            const match = matchFacets(index, args.filters);
+            if ('error' in match) return `${match.error}\n\n${formatFacets(index)}`;
+            pages = filterByFacetUrls(pages, match.urls);
+          }
+          return withSnapshotNote(source, formatPageListing(pages, args));
+        },
+      }),
+
+      list_doc_facets: tool({
+        description:
+          'List the documentation facets (Pagefind filters such as product or section) with their values and page counts. Use a facet value with list_all_docs filters to restrict discovery to one product area.',
+        args: {
+          facet: tool.schema
+            .string()
+            .optional()
+            .describe('List every value of this facet instead of a preview of all facets'),
+        },
+        async execute(args) {
+          if (!(await dbExists())) return NO_DB_MESSAGE;
+
+          const db = await getDb();
+          return formatFacets(await getFacetIndex(db), args.facet);
+        },
+      }),
+
+      docs_status: tool({
+        description:
+          'Report the state of the local Palantir Foundry documentation database: where it is, when it was fetched and how old it is, page count and how many pages failed to download. Use this when results look outdated or incomplete.',
         args: {},
         async execute() {
+          if (!(await dbExists())) return `${NO_DB_MESSAGE}\n\nExpected location: ${dbPath}`;
+
+          const { staleAfterDays } = await getConfig();
+          const text = formatDocsStatus(await getDocsStatus(), dbPath, staleAfterDays);
+          if (!(await hasJournal(dbPath))) return text;
+          // A running refresh keeps a journal too; it is only interrupted once nobody holds the lock.
+          const refreshing = await readLockOwner(dbPath);
+          const note = refreshing
+            ? formatRefreshInProgress(refreshing)
+            : INTERRUPTED_REFRESH_MESSAGE;
+          return `${text}\n\n${note}`;
+        },
+      }),
+
+      browse_docs: tool({
+        description:
+          'Navigate the Palantir Foundry documentation hierarchy like the docs sidebar. Given a page or section URL, returns its breadcrumb, parent, direct children and siblings with titles.',
+        args: {
+          url: tool.schema
+            .string()
+            .describe(
+              'Page or section URL path, e.g. /foundry/ontology/ (use / for the top level)'
+            ),
+        },
+        async execute(args) {
           if (!(await dbExists())) return NO_DB_MESSAGE;
 
           const db = await getDb();
-          const pages = getAllPages(db);
-          const lines = pages.map((p) => `- ${p.title} (${p.url})`);
-          return `Available Palantir Foundry Documentation (${pages.length} pages):\n\n${lines.join('\n')}`;
+          const root = getDocTree(db);
+          const nodes = treePath(root, args.url);
+          if (!nodes) {
+            const resolved = resolvePageUrl(db, args.url);
+            return formatNotFound(args.url, resolved.url === null ? resolved.suggestions : []);
+          }
+
+          return formatBrowse(root, nodes);
         },
       }),
+
+      related_docs: tool({
+        description:
+          'Follow cross-references between Palantir Foundry documentation pages. Returns the pages a page links to and the pages that link back to it, with titles.',
+        args: {
+          url: tool.schema
+            .string()
+            .describe('The URL path of the doc page, e.g. /foundry/ontology/overview/'),
+          direction: tool.schema
+            .enum(['outgoing', 'incoming', 'both'])
+            .optional()
+            .describe('"outgoing" (links to), "incoming" (linked from) or "both" (default)'),
+          citation: tool.schema.boolean().optional().describe(SOURCES_CITATION_ARG_DESCRIPTION),
+        },
+        async execute(args) {
+          if (!(await dbExists())) return NO_DB_MESSAGE;
+
+          const db = await getDb();
+          const resolved = resolvePageUrl(db, args.url);
+          if (resolved.url === null) return formatNotFound(args.url, resolved.suggestions);
+
+          const graph = await getLinkGraph();
+          const titles = new Map(getAllPages(db).map((p) => [p.url, p.title]));
+          const direction = args.direction ?? 'both';
+          const urls = [resolved.url];
+          if (direction !== 'incoming') {
+            urls.push(...(graph.outgoing.get(resolved.url) ?? []).map((e) => e.target));
+          }
+          if (direction !== 'outgoing') {
+            urls.push(...(graph.incoming.get(resolved.url) ?? []).map((e) => e.source));
+          }
+          const text = formatRelated(graph, resolved.url, direction, titles);
+          return withSources(db, urls, text, args.citation);
+        },
+      }),
+
+      find_similar_docs: tool({
+        description:
+          'Find Palantir Foundry documentation pages with similar content to a given page, ranked by cosine similarity of TF-IDF vectors. Use this after finding one useful page to discover related concepts that live elsewhere in the docs.',
+        args: {
+          url: tool.schema
+            .string()
+            .describe('The URL path of the doc page, e.g. /foundry/ontology/overview/'),
+          limit: tool.schema
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_SIMILAR_LIMIT)
+            .optional()
+            .describe(`Maximum number of results (default ${DEFAULT_SIMILAR_LIMIT})`),
+          pathPrefix: tool.schema
+            .string()
+            .optional()
+            .describe('Only return pages whose URL starts with this prefix, e.g. /foundry/'),
+        },
+        async execute(args) {
+          if (!(await dbExists())) return NO_DB_MESSAGE;
+
+          const db = await getDb();
+          const page = await findPage(db, args.url);
+          if (typeof page === 'string') return page;
+
+          const index = await getSimilarityIndex();
+          const hits = findSimilar(index, page.url, {
+            limit: args.limit,
+            pathPrefix: args.pathPrefix,
+          });
+          return formatSimilar(page.title, page.url, hits);
+        },
+      }),
+
+      define_foundry_term: tool({
+        description:
+          'Define a Palantir Foundry term (e.g. "Object Type", "OSDK", "Incremental transform") from the curated glossary and definition sentences in the docs. Returns the definitions with their source pages. Use this before searching when you only need what a concept means.',
+        args: {
+          term: tool.schema
+            .string()
+            .describe('The term or acronym to define, e.g. "Ontology SDK" or "Action type"'),
+        },
+        async execute(args) {
+          const glossary = await getGlossary();
+          const result = lookupTerm(glossary, args.term);
+          if (result.entry === null) return formatUnknownTerm(args.term, result.suggestions);
+
+          const text = formatDefinition(result.entry);
+          if (await dbExists()) return text;
+          return `${text}\n\n(Only the bundled glossary was searched; run /refresh-docs to include definitions from the documentation.)`;
+        },
+      }),
+
+      find_doc_examples: tool({
+        description:
+          'Find code examples in the Palantir Foundry documentation (e.g. @transform_df Python transforms, OSDK TypeScript clients, Functions decorators). Returns matching snippets with their language, the surrounding prose and the source page.',
+        args: {
+          query: tool.schema
+            .string()
+            .describe(
+              'What the example should show, e.g. "transform_df incremental" or "osdk client"'
+            ),
+          language: tool.schema
+            .enum(EXAMPLE_LANGUAGES)
+            .optional()
+            .describe('Only return examples detected as this language'),
+          limit: tool.schema
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_EXAMPLES_LIMIT)
+            .optional()
+            .describe(`Maximum number of examples (default ${DEFAULT_EXAMPLES_LIMIT})`),
+          citation: tool.schema.boolean().optional().describe(SOURCES_CITATION_ARG_DESCRIPTION),
+        },
+        async execute(args) {
+          if (!(await dbExists())) return NO_DB_MESSAGE;
+
+          const examples = await getExamples();
+          const hits = searchExamples(examples, args.query, {
+            language: args.language,
+            limit: args.limit,
+          });
+          const text = formatExamples(args.query, hits, args.language);
+          return withSources(
+            await getDb(),
+            hits.map((h) => h.url),
+            text,
+            args.citation
+          );
+        },
+      }),
+
+      lookup_foundry_api: tool({
+        description:
+          'Look up Foundry platform REST API endpoints by resource or operation name (e.g. "list objects", "apply action", "datasets transactions"). Returns HTTP method, path, parameters, request/response bodies, required OAuth scopes and the reference page URL.',
+        args: {
+          query: tool.schema
+            .string()
+            .describe(
+              'Resource, operation name or API path, e.g. "list objects" or /api/v2/datasets'
+            ),
+          method: tool.schema
+            .enum(HTTP_METHODS)
+            .optional()
+            .describe('Only return endpoints with this HTTP method'),
+          limit: tool.schema
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_API_LIMIT)
+            .optional()
+            .describe(`Maximum number of endpoints (default ${DEFAULT_API_LIMIT})`),
+          citation: tool.schema.boolean().optional().describe(SOURCES_CITATION_ARG_DESCRIPTION),
+        },
+        async execute(args) {
+          if (!(await dbExists())) return NO_DB_MESSAGE;
+
+          const catalog = await getApiCatalog();
+          if (catalog.length === 0) {
+            return 'No API reference pages were found in the documentation database. Run /refresh-docs to update it.';
+          }
+          const hits = searchApiCatalog(catalog, args.query, {
+            method: args.method,
+            limit: args.limit,
+          });
+          const text = formatApiHits(args.query, hits);
+          return withSources(
+            await getDb(),
+            hits.map((h) => h.url),
+            text,
+            args.citation
+          );
+        },
+      }),
+
+      search_docs: tool({
+        description:
+          'Full-text search over Palantir Foundry documentation, ranked by relevance. Returns URLs, titles, scores and highlighted snippets. Use this to find the right pages before calling get_doc_page.',
+        args: {
+          query: tool.schema
+            .string()
+            .describe('Search terms, e.g. "incremental python transforms"'),
+          limit: tool.schema
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_SEARCH_LIMIT)
+            .optional()
+            .describe(`Maximum number of results (default ${DEFAULT_SEARCH_LIMIT})`),
+          pathPrefix: tool.schema
+            .string()
+            .optional()
+            .describe('Only return pages whose URL starts with this prefix, e.g. /foundry/'),
+          asOf: tool.schema.string().optional().describe(AS_OF_ARG_DESCRIPTION),
+          citation: tool.schema.boolean().optional().describe(SOURCES_CITATION_ARG_DESCRIPTION),
+        },
+        async execute(args) {
+          const source = await openDocs(args.asOf);
+          if (typeof source === 'string') return source;
+
+          const db = source.store;
+          const index = await getSearchIndexFor(source);
+          const hits = searchIndex(index, args.query, {
+            limit: args.limit,
+            pathPrefix: args.pathPrefix,
+          });
+          if (hits.length === 0) {
+            return withSnapshotNote(source, `No documentation pages matched: ${args.query}`);
+          }
+
+          const blocks: string[] = [];
+          for (let i = 0; i < hits.length; i++) {
+            const hit = hits[i];
+            const page = await getPage(db, hit.url);
+            const snippet = page ? highlightSnippet(page.content, args.query) : '';
+            blocks.push(
+              `${i + 1}. ${hit.title} (${hit.url}) — score ${hit.score.toFixed(2)}\n   ${snippet}`
+            );
+          }
+          const text = `Found ${hits.length} results for "${args.query}":\n\n${blocks.join('\n\n')}`;
+          return withSnapshotNote(
+            source,
+            await withSources(
+              db,
+              hits.map((h) => h.url),
+              text,
+              args.citation
+            )
+          );
+        },
+      }),
+    },
+
+    'tool.execute.before': async (hookInput, output) => {
+      if (DOCS_TOOL_NAMES.includes(hookInput.tool) && output.args?.asOf !== undefined) {
+        snapshotCalls.add(hookInput.callID);
+      }
+    },
+
+    'tool.execute.after': async (hookInput, output) => {
+      if (hookInput.tool === 'docs_status' || !DOCS_TOOL_NAMES.includes(hookInput.tool)) return;
+      // A dated snapshot is old on purpose; the current database's age says nothing about it.
+      if (snapshotCalls.delete(hookInput.callID)) return;
+      if (!(await dbExists())) return;
+
+      const warning = staleWarning(await getDocsStatus(), (await getConfig()).staleAfterDays);
+      if (warning) output.output = `${output.output}\n\n${warning}`;
+    },
+
+    'chat.message': async (hookInput) => {
+      if (!hookInput.agent) return;
+      sessionAgents.delete(hookInput.sessionID);
+      sessionAgents.set(hookInput.sessionID, hookInput.agent);
+      while (sessionAgents.size > MAX_SESSION_AGENTS) {
+        sessionAgents.delete(sessionAgents.keys().next().value as string);
+      }
+    },
+
+    event: async ({ event }) => {
+      if (event.type === 'session.deleted') sessionAgents.delete(event.properties.info.id);
+    },
+
+    'experimental.chat.system.transform': async (hookInput, output) => {
+      const agent = hookInput.sessionID ? sessionAgents.get(hookInput.sessionID) : undefined;
+      if (!agent) return;
+
+      const context = await getSystemContext();
+      if (!context || !context.agents.has(agent)) return;
+      if (output.system.includes(context.text)) return;
+      output.system.push(context.text);
     },
 
     'command.execute.before': async (hookInput, output) => {
       if (hookInput.command === 'refresh-docs') {
-        const result = await fetchAllDocs(dbPath);
+        const flags = (hookInput.arguments ?? '').split(/\s+/);
+        if (flags.includes('--accept-partial') && (await readJournal(dbPath)).size === 0) {
+          pushText(output, NO_INTERRUPTED_REFRESH_MESSAGE);
+          return;
+        }
 
-        if (dbInstance) {
-          closeDatabase(dbInstance);
-          dbInstance = null;
+        const lock = await acquireDocsLock(dbPath);
+        if (!lock.ok) {
+          pushText(output, formatLockHeld(lock.owner));
+          return;
         }
 
+        const { snapshots } = await getConfig();
+        let result: FetchResult;
+        try {
+          result = await fetchAllDocs(dbPath, {
+            ...(snapshots.enabled ? { snapshots: { keep: snapshots.keep } } : {}),
+            ...(flags.includes('--full') ? { full: true } : {}),
+            ...(flags.includes('--accept-partial') ? { acceptPartial: true } : {}),
+          });
+        } finally {
+          await lock.release();
+        }
+        resetDocs();
+
+        const saved = result.snapshotPath
+          ? ` Saved snapshot ${displayPath(result.snapshotPath, input.worktree)}.`
+          : '';
         pushText(
           output,
-          `Refreshed documentation: ${result.fetchedPages}/${result.totalPages} pages fetched. ${result.failedUrls.length} failures.`
+          `Refreshed documentation: ${result.totalPages} pages; ${formatChanges(result)}. ${result.failedUrls.length} failures.${saved}`
         );
         return;
       }
 
+      if (hookInput.command === 'import-docs') {
+        pushText(output, await importDocs((hookInput.arguments ?? '').trim()));
+        return;
+      }
+
+      if (hookInput.command === 'docs-diff') {
+        pushText(output, await docsDiff((hookInput.arguments ?? '').trim()));
+        return;
+      }
+
       if (hookInput.command === 'setup-palantir-mcp') {
         const text = await setupPalantirMcp(input.worktree, hookInput.arguments ?? '');
         pushText(output, text);
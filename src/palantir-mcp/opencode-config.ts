@@ -276,19 +276,31 @@ function ensureAgentDefaults(
   }
 }
 
+export const DOCS_TOOL_NAMES: readonly string[] = [
+  'browse_docs',
+  'define_foundry_term',
+  'docs_status',
+  'find_doc_examples',
+  'find_similar_docs',
+  'get_doc_page',
+  'get_doc_pages',
+  'get_doc_section',
+  'list_all_docs',
+  'list_doc_facets',
+  'lookup_foundry_api',
+  'related_docs',
+  'search_docs',
+];
+
 function ensureDocsToolDefaults(
   tools: Record<string, unknown>,
   agentName: 'foundry-librarian' | 'foundry'
 ): void {
-  if (agentName === 'foundry-librarian') {
-    if (tools['get_doc_page'] === undefined) tools['get_doc_page'] = true;
-    if (tools['list_all_docs'] === undefined) tools['list_all_docs'] = true;
-    return;
+  // Enabled for the librarian, disabled for the execution agent; never overwrite user choices.
+  const enabled: boolean = agentName === 'foundry-librarian';
+  for (const name of DOCS_TOOL_NAMES) {
+    if (tools[name] === undefined) tools[name] = enabled;
   }
-
-  // Default to disabled for the execution agent, but do not overwrite user choices.
-  if (tools['get_doc_page'] === undefined) tools['get_doc_page'] = false;
-  if (tools['list_all_docs'] === undefined) tools['list_all_docs'] = false;
 }
 
 function hasPalantirToggles(tools: Record<string, unknown>): boolean {